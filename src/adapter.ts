@@ -0,0 +1,225 @@
+import type { SQL } from "bun";
+import {
+	type DatabaseIntrospector,
+	type DialectAdapter,
+	type Kysely,
+	type MigrationLockOptions,
+	MysqlAdapter,
+	MysqlIntrospector,
+	MysqlQueryCompiler,
+	PostgresAdapter,
+	PostgresIntrospector,
+	PostgresQueryCompiler,
+	type QueryCompiler,
+	SqliteAdapter,
+	SqliteIntrospector,
+	SqliteQueryCompiler,
+	sql,
+} from "kysely";
+import type { BunSQLOptions } from "./config";
+import { isSQLInstance } from "./database";
+import { AdapterMismatchError, UnsupportedAdapterError } from "./errors";
+
+/**
+ * Name of a Bun SQL adapter
+ */
+export type BunSQLAdapterName = NonNullable<SQL["options"]["adapter"]>;
+
+/**
+ * The Kysely building blocks matching a Bun SQL adapter
+ */
+export interface BunSQLAdapterSupport {
+	/**
+	 * Adapters of the same family speak the same SQL dialect and wire protocol
+	 */
+	family: "postgres" | "mysql" | "sqlite";
+	createQueryCompiler(): QueryCompiler;
+	createAdapter(): DialectAdapter;
+	createIntrospector(db: Kysely<Record<string, unknown>>): DatabaseIntrospector;
+}
+
+// The advisory lock id of Kysely's PostgresAdapter, so both lock kinds
+// exclude each other
+const MIGRATION_LOCK_ID = 3853314791062309107n;
+
+/**
+ * Kysely's PostgresAdapter takes a transaction-level advisory lock for
+ * migrations. A Migrator created with `disableTransactions: true` runs
+ * outside a transaction, where that lock ends with its own statement, so
+ * there the lock is held by the session until the run is over instead.
+ */
+class BunSQLPostgresAdapter extends PostgresAdapter {
+	override async acquireMigrationLock(
+		db: Kysely<unknown>,
+		options: MigrationLockOptions,
+	): Promise<void> {
+		if (db.isTransaction) {
+			return super.acquireMigrationLock(db, options);
+		}
+
+		await sql`select pg_advisory_lock(${sql.lit(MIGRATION_LOCK_ID)})`.execute(
+			db,
+		);
+	}
+
+	override async releaseMigrationLock(
+		db: Kysely<unknown>,
+		options: MigrationLockOptions,
+	): Promise<void> {
+		if (db.isTransaction) {
+			return super.releaseMigrationLock(db, options);
+		}
+
+		await sql`select pg_advisory_unlock(${sql.lit(MIGRATION_LOCK_ID)})`.execute(
+			db,
+		);
+	}
+}
+
+const POSTGRES: BunSQLAdapterSupport = {
+	family: "postgres",
+	createQueryCompiler: () => new PostgresQueryCompiler(),
+	createAdapter: () => new BunSQLPostgresAdapter(),
+	createIntrospector: (db) => new PostgresIntrospector(db),
+};
+
+const MYSQL: BunSQLAdapterSupport = {
+	family: "mysql",
+	createQueryCompiler: () => new MysqlQueryCompiler(),
+	createAdapter: () => new MysqlAdapter(),
+	createIntrospector: (db) => new MysqlIntrospector(db),
+};
+
+const SQLITE: BunSQLAdapterSupport = {
+	family: "sqlite",
+	createQueryCompiler: () => new SqliteQueryCompiler(),
+	createAdapter: () => new SqliteAdapter(),
+	createIntrospector: (db) => new SqliteIntrospector(db),
+};
+
+const ADAPTERS: Record<BunSQLAdapterName, BunSQLAdapterSupport> = {
+	postgres: POSTGRES,
+	mysql: MYSQL,
+	mariadb: MYSQL,
+	sqlite: SQLITE,
+};
+
+/**
+ * Returns the Kysely building blocks of an adapter
+ *
+ * @throws {UnsupportedAdapterError} If the dialect does not support the adapter
+ */
+export function getAdapterSupport(adapter: string): BunSQLAdapterSupport {
+	if (!Object.hasOwn(ADAPTERS, adapter)) {
+		throw new UnsupportedAdapterError(adapter, Object.keys(ADAPTERS));
+	}
+
+	return ADAPTERS[adapter as BunSQLAdapterName];
+}
+
+/**
+ * Returns the adapter family of a Kysely instance from its dialect adapter
+ */
+export function getAdapterFamily(
+	db: Kysely<unknown>,
+): BunSQLAdapterSupport["family"] {
+	const { adapter } = db.getExecutor();
+
+	if (adapter instanceof PostgresAdapter) {
+		return "postgres";
+	}
+
+	return adapter instanceof MysqlAdapter ? "mysql" : "sqlite";
+}
+
+/**
+ * Detects the adapter Bun will pick for a connection string, following Bun's
+ * own rules: SQLite and MySQL/MariaDB URLs are recognized by their scheme,
+ * everything else is PostgreSQL
+ */
+function detectAdapterFromUrl(url: string | URL): BunSQLAdapterName {
+	const value = url.toString();
+
+	if (
+		value === ":memory:" ||
+		value.startsWith("sqlite:") ||
+		value.startsWith("file:")
+	) {
+		return "sqlite";
+	}
+
+	if (value.startsWith("mysql:") || value.startsWith("mysql2:")) {
+		return "mysql";
+	}
+
+	if (value.startsWith("mariadb:")) {
+		return "mariadb";
+	}
+
+	return "postgres";
+}
+
+function detectAdapter(options: BunSQLOptions): string {
+	const { database } = options;
+
+	if (isSQLInstance(database)) {
+		return database.options.adapter ?? "postgres";
+	}
+
+	if (typeof database === "function") {
+		throw new Error(
+			"BunSQLOptions.adapter is required when database is a factory",
+		);
+	}
+
+	if (typeof database === "string" || database instanceof URL) {
+		return detectAdapterFromUrl(database);
+	}
+
+	if (database.adapter) {
+		return database.adapter;
+	}
+
+	if ("filename" in database && database.filename !== undefined) {
+		return "sqlite";
+	}
+
+	return "url" in database && database.url
+		? detectAdapterFromUrl(database.url)
+		: "postgres";
+}
+
+/**
+ * Resolves the adapter of the configured database without connecting to it.
+ * An explicit `adapter` option takes precedence over detection; whether it
+ * matches the live SQL instance is checked by `assertAdapterMatches` once the
+ * instance exists.
+ *
+ * @throws {Error} If `database` is a factory and no `adapter` was given
+ * @throws {UnsupportedAdapterError} If the adapter is not supported
+ */
+export function resolveAdapter(options: BunSQLOptions): BunSQLAdapterName {
+	const adapter = options.adapter ?? detectAdapter(options);
+
+	getAdapterSupport(adapter);
+
+	return adapter as BunSQLAdapterName;
+}
+
+/**
+ * Checks that the live SQL instance uses the adapter the dialect was
+ * configured for, so a misconfigured URL fails at startup rather than with
+ * syntax errors from the wrong query compiler
+ *
+ * @throws {AdapterMismatchError} If the instance belongs to another adapter family
+ */
+export function assertAdapterMatches(
+	expected: BunSQLAdapterName,
+	sql: SQL,
+): void {
+	const actual = sql.options.adapter ?? "postgres";
+
+	if (getAdapterSupport(actual).family !== ADAPTERS[expected].family) {
+		throw new AdapterMismatchError(expected, actual);
+	}
+}
@@ -0,0 +1,222 @@
+import {
+	type CompiledQuery,
+	type InsertObject,
+	type InsertQueryBuilder,
+	type InsertResult,
+	type Kysely,
+	sql,
+	type Transaction,
+} from "kysely";
+import { type BunSQLAdapterSupport, getAdapterFamily } from "./adapter";
+
+/**
+ * Most bind parameters a single statement may carry. PostgreSQL and MySQL
+ * count them in 16 bits; SQLite's `SQLITE_MAX_VARIABLE_NUMBER` is 32766
+ * since 3.32.0 and 999 before.
+ */
+const MAX_PARAMETERS: Record<BunSQLAdapterSupport["family"], number> = {
+	postgres: 65535,
+	mysql: 65535,
+	sqlite: 32766,
+};
+
+const LEGACY_SQLITE_MAX_PARAMETERS = 999;
+
+export interface BulkInsertOptions<DB, TB extends keyof DB, O> {
+	/**
+	 * Adds clauses to every chunk's insert, such as `onConflict`,
+	 * `onDuplicateKeyUpdate` or `returning`. Parameters of these clauses are
+	 * counted against the limit too.
+	 *
+	 * @example
+	 * ```ts
+	 * (insert) => insert
+	 *   .onConflict((oc) => oc.column('id').doUpdateSet({ name: (eb) => eb.ref('excluded.name') }))
+	 *   .returning(['id'])
+	 * ```
+	 */
+	modify?: (
+		insert: InsertQueryBuilder<DB, TB, InsertResult>,
+	) => InsertQueryBuilder<DB, TB, O>;
+
+	/**
+	 * Overrides the parameter limit of the adapter, for servers built with a
+	 * lower one
+	 */
+	maxParameters?: number;
+}
+
+export interface BulkInsertResult<O> {
+	/**
+	 * The RETURNING rows of every chunk, in insertion order. Empty without a
+	 * `returning` clause, and on MySQL, which has none.
+	 */
+	rows: O[];
+
+	/**
+	 * Rows inserted or updated by all chunks. MySQL counts an updated
+	 * duplicate twice.
+	 */
+	numInsertedOrUpdatedRows: bigint;
+
+	/**
+	 * The insert id reported for each chunk: the first generated id on MySQL,
+	 * the last rowid on SQLite, none on PostgreSQL
+	 */
+	insertIds: bigint[];
+
+	/**
+	 * Statements the rows were split into
+	 */
+	chunks: number;
+}
+
+/**
+ * Returns the parameter limit of the database behind `db`
+ */
+async function getMaxParameters(db: Kysely<unknown>): Promise<number> {
+	const family = getAdapterFamily(db);
+
+	if (family !== "sqlite") {
+		return MAX_PARAMETERS[family];
+	}
+
+	const { rows } = await sql<{
+		version: string;
+	}>`select sqlite_version() as version`.execute(db);
+	const [major = 0, minor = 0] = (rows[0]?.version ?? "")
+		.split(".")
+		.map(Number);
+
+	return major > 3 || (major === 3 && minor >= 32)
+		? MAX_PARAMETERS.sqlite
+		: LEGACY_SQLITE_MAX_PARAMETERS;
+}
+
+/**
+ * Inserts any number of rows, split into the fewest statements the adapter's
+ * bind parameter limit allows. All of them run in a single transaction,
+ * unless `db` already is one.
+ *
+ * A chunk holds as many rows as fit next to the parameters of the `modify`
+ * clauses, counting one parameter per column. Chunks whose values turn out
+ * to need more (e.g. `sql` expressions) are split again.
+ *
+ * @example
+ * ```ts
+ * const { rows } = await bulkInsert(db, 'users', users, {
+ *   modify: (insert) => insert.onConflict((oc) => oc.column('email').doNothing()).returning('id'),
+ * })
+ * ```
+ */
+export function bulkInsert<DB, TB extends keyof DB & string>(
+	db: Kysely<DB> | Transaction<DB>,
+	table: TB,
+	values: readonly InsertObject<DB, TB>[],
+	options?: BulkInsertOptions<DB, TB, InsertResult>,
+): Promise<BulkInsertResult<InsertResult>>;
+export function bulkInsert<DB, TB extends keyof DB & string, O>(
+	db: Kysely<DB> | Transaction<DB>,
+	table: TB,
+	values: readonly InsertObject<DB, TB>[],
+	options: BulkInsertOptions<DB, TB, O> &
+		Required<Pick<BulkInsertOptions<DB, TB, O>, "modify">>,
+): Promise<BulkInsertResult<O>>;
+export async function bulkInsert<DB, TB extends keyof DB & string, O>(
+	db: Kysely<DB> | Transaction<DB>,
+	table: TB,
+	values: readonly InsertObject<DB, TB>[],
+	options: BulkInsertOptions<DB, TB, O> = {},
+): Promise<BulkInsertResult<unknown>> {
+	const result: BulkInsertResult<unknown> = {
+		rows: [],
+		numInsertedOrUpdatedRows: 0n,
+		insertIds: [],
+		chunks: 0,
+	};
+
+	if (values.length === 0) {
+		return result;
+	}
+
+	const maxParameters =
+		options.maxParameters ?? (await getMaxParameters(db as Kysely<unknown>));
+
+	if (!Number.isInteger(maxParameters) || maxParameters <= 0) {
+		throw new Error("maxParameters must be a positive integer");
+	}
+
+	const compile = (
+		executor: Kysely<DB>,
+		rows: readonly InsertObject<DB, TB>[],
+	): CompiledQuery<unknown> => {
+		const insert = executor
+			.insertInto(table)
+			.values(rows as InsertObject<DB, TB>[]);
+
+		return options.modify ? options.modify(insert).compile() : insert.compile();
+	};
+
+	const columnCount = new Set(values.flatMap((row) => Object.keys(row))).size;
+	// What the clauses added by `modify` take, measured on the first row
+	const clauseParameters = options.modify
+		? compile(db, values.slice(0, 1)).parameters.length -
+			db
+				.insertInto(table)
+				.values(values[0] as InsertObject<DB, TB>)
+				.compile().parameters.length
+		: 0;
+	const chunkSize = Math.max(
+		1,
+		Math.floor((maxParameters - clauseParameters) / Math.max(columnCount, 1)),
+	);
+
+	const chunks: (readonly InsertObject<DB, TB>[])[] = [];
+
+	for (let start = 0; start < values.length; start += chunkSize) {
+		chunks.push(values.slice(start, start + chunkSize));
+	}
+
+	const insertChunk = async (
+		executor: Kysely<DB>,
+		rows: readonly InsertObject<DB, TB>[],
+	): Promise<void> => {
+		const query = compile(executor, rows);
+
+		if (query.parameters.length > maxParameters && rows.length > 1) {
+			const half = Math.ceil(rows.length / 2);
+			await insertChunk(executor, rows.slice(0, half));
+			await insertChunk(executor, rows.slice(half));
+			return;
+		}
+
+		const {
+			rows: returned,
+			numAffectedRows,
+			insertId,
+		} = await executor.executeQuery(query);
+
+		for (const row of returned) {
+			result.rows.push(row);
+		}
+		result.numInsertedOrUpdatedRows += numAffectedRows ?? 0n;
+		if (insertId !== undefined) {
+			result.insertIds.push(insertId);
+		}
+		result.chunks += 1;
+	};
+
+	const run = async (executor: Kysely<DB>) => {
+		for (const chunk of chunks) {
+			await insertChunk(executor, chunk);
+		}
+	};
+
+	if (db.isTransaction) {
+		await run(db);
+	} else {
+		await db.transaction().execute(run);
+	}
+
+	return result;
+}
@@ -0,0 +1,114 @@
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { BunSQLOptions } from "./config";
+
+/**
+ * Configuration of the `kysely-bun-sql` command, usually the default export
+ * of `kysely-bun-sql.config.ts`
+ *
+ * @example
+ * ```ts
+ * import { defineConfig } from 'kysely-bun-sql'
+ *
+ * export default defineConfig({
+ *   dialect: { database: process.env.DATABASE_URL ?? 'sqlite://./app.db' },
+ *   migrations: { folder: './db/migrations' },
+ *   codegen: { outFile: './src/db/schema.ts' },
+ * })
+ * ```
+ */
+export interface BunSQLCliConfig {
+	/**
+	 * Options of the BunSQLDialect the commands connect with. Defaults to
+	 * `{ database: process.env.DATABASE_URL }`.
+	 */
+	dialect?: BunSQLOptions;
+
+	migrations?: {
+		/**
+		 * Folder of the `NNNN_name.up.sql` and `NNNN_name.down.sql` files,
+		 * relative to the working directory
+		 *
+		 * @default "./migrations"
+		 */
+		folder?: string;
+		/**
+		 * @default "kysely_migration"
+		 */
+		tableName?: string;
+		/**
+		 * @default "kysely_migration_lock"
+		 */
+		lockTableName?: string;
+		/**
+		 * PostgreSQL schema of the migration tables
+		 */
+		schema?: string;
+	};
+
+	codegen?: {
+		/**
+		 * File `kysely-bun-sql codegen` writes the `Database` interface to,
+		 * relative to the working directory
+		 *
+		 * @default "./src/database.ts"
+		 */
+		outFile?: string;
+	};
+}
+
+/**
+ * Identity function typing a `kysely-bun-sql.config.ts` export
+ */
+export function defineConfig(config: BunSQLCliConfig): BunSQLCliConfig {
+	return config;
+}
+
+/**
+ * Config files looked up in the working directory when `--config` is not
+ * given, in this order
+ */
+export const DEFAULT_CONFIG_FILES = [
+	"kysely-bun-sql.config.ts",
+	"kysely-bun-sql.config.js",
+	"kysely-bun-sql.config.json",
+];
+
+/**
+ * Loads the CLI configuration from `path`, or from the first default config
+ * file that exists. `DATABASE_URL` fills in a missing dialect.
+ *
+ * @throws {Error} If `path` does not exist
+ */
+export async function loadCliConfig(
+	cwd: string,
+	env: Record<string, string | undefined>,
+	path?: string,
+): Promise<BunSQLCliConfig> {
+	let config: BunSQLCliConfig = {};
+	let file = path ? resolve(cwd, path) : undefined;
+
+	if (file && !(await Bun.file(file).exists())) {
+		throw new Error(`Config file ${file} does not exist`);
+	}
+
+	for (const name of file ? [] : DEFAULT_CONFIG_FILES) {
+		const candidate = resolve(cwd, name);
+
+		if (await Bun.file(candidate).exists()) {
+			file = candidate;
+			break;
+		}
+	}
+
+	if (file) {
+		const module = await import(pathToFileURL(file).href);
+		config = module.default ?? module;
+	}
+
+	if (!config.dialect && env.DATABASE_URL) {
+		return { ...config, dialect: { database: env.DATABASE_URL } };
+	}
+
+	return config;
+}
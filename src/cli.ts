@@ -0,0 +1,466 @@
+#!/usr/bin/env bun
+import { mkdir, readdir } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { Kysely, type MigrationResultSet, Migrator } from "kysely";
+import {
+	type BunSQLCliConfig,
+	DEFAULT_CONFIG_FILES,
+	loadCliConfig,
+} from "./cli-config";
+import { generateTypes } from "./codegen";
+import { BunSQLDialect } from "./dialect";
+import { SQLFileMigrationProvider } from "./migration-provider";
+import { ScriptError } from "./script";
+
+/**
+ * Where the CLI reads its environment from and writes its output to
+ */
+export interface CliIO {
+	cwd: string;
+	env: Record<string, string | undefined>;
+	stdout(text: string): void;
+	stderr(text: string): void;
+}
+
+/**
+ * What a command reports, printed as text or as JSON with `--json`
+ */
+interface CommandOutput {
+	ok: boolean;
+	json: Record<string, unknown>;
+	lines: string[];
+	errorLines?: string[];
+}
+
+const DEFAULT_CODEGEN_FILE = "./src/database.ts";
+
+const USAGE = `Usage: kysely-bun-sql <command> [options]
+
+Commands:
+  migrate latest          Run every pending migration
+  migrate up              Run the next pending migration
+  migrate down            Revert the last applied migration
+  migrate redo            Revert and run again the last applied migration
+  migrate status          List applied and pending migrations
+  migrate create <name>   Create NNNN_<name>.up.sql and NNNN_<name>.down.sql
+  codegen                 Write the Database interface of the current schema
+
+Options:
+  -c, --config <path>     Config file (default: ${DEFAULT_CONFIG_FILES[0]})
+  -o, --out <path>        codegen: file to write (default: ${DEFAULT_CODEGEN_FILE})
+      --check             codegen: fail if the file is out of date instead
+      --json              Print JSON instead of text
+  -h, --help              Show this help
+
+The database is taken from the config file's \`dialect\`, or DATABASE_URL.
+`;
+
+const MIGRATION_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * A mistake in the command line itself, reported with the usage text
+ */
+class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UsageError";
+	}
+}
+
+/**
+ * Whether the error is about the command line, including the TypeErrors
+ * `parseArgs` throws for unknown or malformed options
+ */
+function isUsageError(error: unknown): boolean {
+	return (
+		error instanceof UsageError ||
+		(error instanceof TypeError &&
+			String((error as { code?: unknown }).code).startsWith("ERR_PARSE_ARGS"))
+	);
+}
+
+const PROCESS_IO: CliIO = {
+	cwd: process.cwd(),
+	env: process.env,
+	stdout: (text) => process.stdout.write(text),
+	stderr: (text) => process.stderr.write(text),
+};
+
+function serializeError(error: unknown): Record<string, unknown> {
+	if (!(error instanceof Error)) {
+		return { message: String(error) };
+	}
+
+	return {
+		name: error.name,
+		message: error.message,
+		...(error instanceof ScriptError
+			? { statement: error.statement, line: error.line }
+			: {}),
+	};
+}
+
+function getMigrationsFolder(config: BunSQLCliConfig, cwd: string): string {
+	return resolve(cwd, config.migrations?.folder ?? "./migrations");
+}
+
+/**
+ * Runs `callback` with a Kysely instance over the configured database,
+ * destroying it afterwards
+ */
+async function withDatabase<T>(
+	config: BunSQLCliConfig,
+	callback: (db: Kysely<unknown>) => Promise<T>,
+): Promise<T> {
+	if (!config.dialect) {
+		throw new Error(
+			`No database configured: set DATABASE_URL or create ${DEFAULT_CONFIG_FILES[0]}`,
+		);
+	}
+
+	const db = new Kysely<unknown>({
+		dialect: new BunSQLDialect(config.dialect),
+	});
+
+	try {
+		return await callback(db);
+	} finally {
+		await db.destroy();
+	}
+}
+
+/**
+ * Runs `callback` with a Migrator over the configured database and SQL
+ * migrations
+ */
+async function withMigrator<T>(
+	config: BunSQLCliConfig,
+	cwd: string,
+	callback: (migrator: Migrator) => Promise<T>,
+): Promise<T> {
+	const { migrations } = config;
+
+	return withDatabase(config, (db) =>
+		callback(
+			new Migrator({
+				db,
+				provider: new SQLFileMigrationProvider({
+					migrationFolder: getMigrationsFolder(config, cwd),
+				}),
+				migrationTableName: migrations?.tableName,
+				migrationLockTableName: migrations?.lockTableName,
+				migrationTableSchema: migrations?.schema,
+				// Each migration gets its own transaction from the provider. On
+				// PostgreSQL the dialect then holds a session-level migration lock.
+				disableTransactions: true,
+			}),
+		),
+	);
+}
+
+function reportResults(
+	command: string,
+	{ error, results = [] }: MigrationResultSet,
+): CommandOutput {
+	const lines = results.map(({ migrationName, direction, status }) => {
+		const label =
+			status === "Error"
+				? "failed"
+				: status === "NotExecuted"
+					? "skipped"
+					: direction === "Up"
+						? "applied"
+						: "reverted";
+
+		return `${label.padEnd(9)}${migrationName}`;
+	});
+
+	if (results.length === 0 && !error) {
+		lines.push(
+			command === "down" ? "No migrations to revert" : "No pending migrations",
+		);
+	}
+
+	return {
+		ok: !error,
+		json: {
+			command,
+			results: results.map(({ migrationName, direction, status }) => ({
+				migrationName,
+				direction,
+				status,
+			})),
+			...(error ? { error: serializeError(error) } : {}),
+		},
+		lines,
+		errorLines: error
+			? [`Error: ${error instanceof Error ? error.message : String(error)}`]
+			: undefined,
+	};
+}
+
+async function migrate(
+	command: string,
+	config: BunSQLCliConfig,
+	cwd: string,
+): Promise<CommandOutput> {
+	return withMigrator(config, cwd, async (migrator) => {
+		switch (command) {
+			case "latest":
+				return reportResults(command, await migrator.migrateToLatest());
+			case "up":
+				return reportResults(command, await migrator.migrateUp());
+			case "down":
+				return reportResults(command, await migrator.migrateDown());
+			default: {
+				const down = await migrator.migrateDown();
+
+				if (down.error || !down.results?.length) {
+					return reportResults(command, down);
+				}
+
+				const up = await migrator.migrateUp();
+
+				return reportResults(command, {
+					error: up.error,
+					results: [...down.results, ...(up.results ?? [])],
+				});
+			}
+		}
+	});
+}
+
+async function status(
+	config: BunSQLCliConfig,
+	cwd: string,
+): Promise<CommandOutput> {
+	const migrations = await withMigrator(config, cwd, (migrator) =>
+		migrator.getMigrations(),
+	);
+
+	return {
+		ok: true,
+		json: {
+			command: "status",
+			migrations: migrations.map(({ name, executedAt }) => ({
+				name,
+				status: executedAt ? "applied" : "pending",
+				executedAt: executedAt?.toISOString() ?? null,
+			})),
+		},
+		lines:
+			migrations.length === 0
+				? ["No migrations found"]
+				: migrations.map(({ name, executedAt }) =>
+						executedAt
+							? `applied  ${name} (${executedAt.toISOString()})`
+							: `pending  ${name}`,
+					),
+	};
+}
+
+/**
+ * Creates the up and down files of a new migration, numbered after the
+ * highest existing one
+ */
+async function create(
+	name: string | undefined,
+	config: BunSQLCliConfig,
+	cwd: string,
+): Promise<CommandOutput> {
+	if (!name || !MIGRATION_NAME_PATTERN.test(name)) {
+		throw new UsageError(
+			"migrate create needs a name of letters, digits, _ and -",
+		);
+	}
+
+	const folder = getMigrationsFolder(config, cwd);
+	await mkdir(folder, { recursive: true });
+
+	let last = 0;
+	let width = 4;
+
+	for (const file of await readdir(folder)) {
+		const prefix = /^(\d+)_/.exec(file)?.[1];
+
+		if (prefix) {
+			last = Math.max(last, Number(prefix));
+			width = Math.max(width, prefix.length);
+		}
+	}
+
+	const migrationName = `${String(last + 1).padStart(width, "0")}_${name}`;
+	const files = ["up", "down"].map((direction) =>
+		join(folder, `${migrationName}.${direction}.sql`),
+	);
+
+	for (const [index, file] of files.entries()) {
+		await Bun.write(
+			file,
+			`-- ${migrationName} (${index === 0 ? "up" : "down"})\n`,
+		);
+	}
+
+	return {
+		ok: true,
+		json: { command: "create", migrationName, files },
+		lines: files.map((file) => `created  ${relative(cwd, file)}`),
+	};
+}
+
+/**
+ * Generates the `Database` interface and writes it to the output file, or
+ * with `check` only compares it to what the file holds
+ */
+async function codegen(
+	out: string | undefined,
+	check: boolean,
+	config: BunSQLCliConfig,
+	cwd: string,
+): Promise<CommandOutput> {
+	const file = resolve(
+		cwd,
+		out ?? config.codegen?.outFile ?? DEFAULT_CODEGEN_FILE,
+	);
+	const name = relative(cwd, file);
+	const { migrations } = config;
+
+	const source = await withDatabase(config, (db) =>
+		generateTypes(db, {
+			types: config.dialect?.types,
+			exclude: [migrations?.tableName, migrations?.lockTableName].filter(
+				(table): table is string => table !== undefined,
+			),
+		}),
+	);
+	const current = Bun.file(file);
+	const upToDate =
+		(await current.exists()) && (await current.text()) === source;
+
+	if (check) {
+		return {
+			ok: upToDate,
+			json: { command: "codegen", file, upToDate },
+			lines: upToDate ? [`${name} is up to date`] : [],
+			errorLines: upToDate
+				? undefined
+				: [`Error: ${name} is out of date, run kysely-bun-sql codegen`],
+		};
+	}
+
+	if (!upToDate) {
+		await mkdir(dirname(file), { recursive: true });
+		await Bun.write(file, source);
+	}
+
+	return {
+		ok: true,
+		json: { command: "codegen", file, changed: !upToDate },
+		lines: [upToDate ? `${name} is up to date` : `wrote    ${name}`],
+	};
+}
+
+/**
+ * Runs the `kysely-bun-sql` command line, returning the exit code: 0 on
+ * success, 1 when a command failed and 2 for usage errors
+ */
+export async function main(
+	argv: string[],
+	io: CliIO = PROCESS_IO,
+): Promise<number> {
+	let json = false;
+	let command = "";
+
+	try {
+		const { values, positionals } = parseArgs({
+			args: argv,
+			options: {
+				config: { type: "string", short: "c" },
+				out: { type: "string", short: "o" },
+				check: { type: "boolean" },
+				json: { type: "boolean" },
+				help: { type: "boolean", short: "h" },
+			},
+			allowPositionals: true,
+		});
+		json = values.json ?? false;
+
+		if (values.help) {
+			io.stdout(USAGE);
+			return 0;
+		}
+
+		const [group, subcommand, ...rest] = positionals;
+		command = group === "codegen" ? group : (subcommand ?? "");
+
+		if (group !== "migrate" && group !== "codegen") {
+			throw new UsageError(
+				group ? `Unknown command "${group}"` : "Missing command",
+			);
+		}
+		if (group === "codegen" && subcommand) {
+			throw new UsageError(`Unexpected argument "${subcommand}"`);
+		}
+
+		const config = await loadCliConfig(io.cwd, io.env, values.config);
+		let output: CommandOutput;
+
+		if (group === "codegen") {
+			output = await codegen(values.out, values.check ?? false, config, io.cwd);
+		} else {
+			switch (subcommand) {
+				case "latest":
+				case "up":
+				case "down":
+				case "redo":
+					output = await migrate(subcommand, config, io.cwd);
+					break;
+				case "status":
+					output = await status(config, io.cwd);
+					break;
+				case "create":
+					output = await create(rest[0], config, io.cwd);
+					break;
+				default:
+					throw new UsageError(
+						subcommand
+							? `Unknown migrate command "${subcommand}"`
+							: "Missing migrate command",
+					);
+			}
+		}
+
+		if (json) {
+			io.stdout(`${JSON.stringify(output.json, null, 2)}\n`);
+		} else {
+			io.stdout(`${output.lines.join("\n")}\n`);
+
+			if (output.errorLines) {
+				io.stderr(`${output.errorLines.join("\n")}\n`);
+			}
+		}
+
+		return output.ok ? 0 : 1;
+	} catch (error) {
+		const usage = isUsageError(error);
+
+		if (json) {
+			io.stdout(
+				`${JSON.stringify({ command, error: serializeError(error) }, null, 2)}\n`,
+			);
+		} else {
+			io.stderr(
+				`Error: ${error instanceof Error ? error.message : String(error)}\n${
+					usage ? `\n${USAGE}` : ""
+				}`,
+			);
+		}
+
+		return usage ? 2 : 1;
+	}
+}
+
+if (import.meta.main) {
+	process.exitCode = await main(Bun.argv.slice(2));
+}
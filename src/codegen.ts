@@ -0,0 +1,443 @@
+import {
+	type ColumnMetadata,
+	type Kysely,
+	sql,
+	type TableMetadata,
+} from "kysely";
+import { type BunSQLAdapterSupport, getAdapterFamily } from "./adapter";
+import type { BunSQLTypeMapping, BunSQLValueKind } from "./types";
+
+type Family = BunSQLAdapterSupport["family"];
+
+export interface GenerateTypesOptions {
+	/**
+	 * The dialect's `types` option, so the generated types describe values
+	 * the way the dialect returns them
+	 */
+	types?: BunSQLTypeMapping;
+
+	/**
+	 * Tables left out of the `Database` interface, such as custom migration
+	 * tables. Kysely's own migration tables are always left out.
+	 */
+	exclude?: string[];
+}
+
+/**
+ * Values of every enum type, by the name columns refer to it by: the type
+ * name on PostgreSQL (prefixed with its schema outside `public`),
+ * `table.column` on MySQL
+ */
+type EnumValues = Map<string, string[]>;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const HEADER = `/**
+ * Generated by kysely-bun-sql from the database schema. Do not edit by hand,
+ * run \`kysely-bun-sql codegen\` instead.
+ */
+`;
+
+/**
+ * TypeScript types of the PostgreSQL types Bun decodes, by type name.
+ * Arrays are named after their element type with a leading underscore.
+ */
+const POSTGRES_TYPES: Record<string, string> = {
+	bool: "boolean",
+	int2: "number",
+	int4: "number",
+	oid: "number",
+	float4: "number",
+	float8: "number",
+	text: "string",
+	varchar: "string",
+	bpchar: "string",
+	char: "string",
+	name: "string",
+	citext: "string",
+	uuid: "string",
+	inet: "string",
+	cidr: "string",
+	macaddr: "string",
+	time: "string",
+	timetz: "string",
+	interval: "string",
+	money: "string",
+	xml: "string",
+	bytea: "Buffer",
+};
+
+const MYSQL_TYPES: Record<string, string> = {
+	tinyint: "number",
+	smallint: "number",
+	mediumint: "number",
+	int: "number",
+	integer: "number",
+	year: "number",
+	float: "number",
+	double: "number",
+	char: "string",
+	varchar: "string",
+	tinytext: "string",
+	text: "string",
+	mediumtext: "string",
+	longtext: "string",
+	time: "string",
+	set: "string",
+	binary: "Buffer",
+	varbinary: "Buffer",
+	tinyblob: "Buffer",
+	blob: "Buffer",
+	mediumblob: "Buffer",
+	longblob: "Buffer",
+	bit: "Buffer",
+};
+
+function toPascalCase(name: string): string {
+	const pascal = name
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean)
+		.map((part) => part[0]?.toUpperCase() + part.slice(1))
+		.join("");
+
+	return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal || "_";
+}
+
+/**
+ * Hands out unique type names. Tables and enums can map to the same
+ * PascalCase name, or to the `Database` and `Generated` names the module
+ * uses; later ones get the kind appended, then a number.
+ */
+function createNameAllocator(): (
+	name: string,
+	kind: "Table" | "Enum",
+) => string {
+	const taken = new Set(["Database", "Generated"]);
+
+	return (name, kind) => {
+		const base = toPascalCase(name);
+		let typeName = base;
+
+		for (let count = 1; taken.has(typeName); count++) {
+			typeName = `${base}${kind}${count > 1 ? count : ""}`;
+		}
+
+		taken.add(typeName);
+		return typeName;
+	};
+}
+
+function quoteKey(key: string): string {
+	return IDENTIFIER_PATTERN.test(key) ? key : JSON.stringify(key);
+}
+
+function toUnion(values: string[]): string {
+	return values.length === 0
+		? "never"
+		: values.map((value) => JSON.stringify(value)).join(" | ");
+}
+
+/**
+ * Bun returns 64-bit integers within 32 bits as numbers and larger ones as
+ * strings, or as bigints on instances created with a `bigint` mapping. Only
+ * listed columns are converted whole.
+ */
+function bigintType(
+	{ bigint }: BunSQLTypeMapping,
+	kind: BunSQLValueKind | undefined,
+): string {
+	if (kind === "bigint" && bigint) {
+		return bigint;
+	}
+
+	return bigint === "number" ? "number" : `${bigint ?? "string"} | number`;
+}
+
+function timestampType({ timestamp }: BunSQLTypeMapping): string {
+	return timestamp === "string" ? "string" : "Date";
+}
+
+function jsonType({ json }: BunSQLTypeMapping): string {
+	return json === "raw" ? "string" : "unknown";
+}
+
+// Decimals arrive as strings unless their column is listed
+function decimalType(
+	{ decimal }: BunSQLTypeMapping,
+	kind: BunSQLValueKind | undefined,
+): string {
+	return kind === "decimal" && decimal === "number" ? "number" : "string";
+}
+
+function postgresType(
+	dataType: string,
+	dataTypeSchema: string | undefined,
+	types: BunSQLTypeMapping,
+	kind: BunSQLValueKind | undefined,
+	enumNames: Map<string, string>,
+): string {
+	if (dataType.startsWith("_")) {
+		const element = postgresType(
+			dataType.slice(1),
+			dataTypeSchema,
+			types,
+			kind,
+			enumNames,
+		);
+		return element.includes(" ") ? `(${element})[]` : `${element}[]`;
+	}
+
+	const enumName = enumNames.get(getQualifiedName(dataType, dataTypeSchema));
+
+	if (enumName) {
+		return enumName;
+	}
+
+	switch (dataType) {
+		case "int8":
+			return bigintType(types, kind);
+		case "numeric":
+			return decimalType(types, kind);
+		case "date":
+		case "timestamp":
+		case "timestamptz":
+			return timestampType(types);
+		case "json":
+		case "jsonb":
+			return jsonType(types);
+		default:
+			return POSTGRES_TYPES[dataType] ?? "unknown";
+	}
+}
+
+function mysqlType(
+	table: string,
+	column: ColumnMetadata,
+	types: BunSQLTypeMapping,
+	kind: BunSQLValueKind | undefined,
+	enums: EnumValues,
+): string {
+	switch (column.dataType.toLowerCase()) {
+		case "enum":
+			return toUnion(enums.get(`${table}.${column.name}`) ?? []);
+		case "bigint":
+			return bigintType(types, kind);
+		case "decimal":
+		case "numeric":
+			return decimalType(types, kind);
+		case "date":
+		case "datetime":
+		case "timestamp":
+			return timestampType(types);
+		case "json":
+			return jsonType(types);
+		default:
+			return MYSQL_TYPES[column.dataType.toLowerCase()] ?? "unknown";
+	}
+}
+
+/**
+ * Follows SQLite's type affinity rules for declared column types. Dates,
+ * times and JSON are stored as text, so only columns listed in the `types`
+ * option turn into anything else.
+ */
+function sqliteType(
+	dataType: string,
+	types: BunSQLTypeMapping,
+	kind: BunSQLValueKind | undefined,
+): string {
+	const declared = dataType.toUpperCase();
+
+	if (kind === "timestamp" && types.timestamp === "date") {
+		return "Date";
+	}
+	if (kind === "json" && types.json === "parsed") {
+		return "unknown";
+	}
+	if (kind === "decimal" && types.decimal === "string") {
+		return "string";
+	}
+	if (/DATE|TIME|JSON/.test(declared)) {
+		return "string";
+	}
+	if (declared.includes("INT")) {
+		return kind === "bigint" ? bigintType(types, kind) : "number";
+	}
+	if (/CHAR|CLOB|TEXT/.test(declared)) {
+		return "string";
+	}
+	if (declared.includes("BLOB")) {
+		return "Uint8Array";
+	}
+	if (declared === "") {
+		return "unknown";
+	}
+
+	return "number";
+}
+
+async function getEnumValues(
+	db: Kysely<unknown>,
+	family: Family,
+): Promise<EnumValues> {
+	const enums: EnumValues = new Map();
+
+	if (family === "postgres") {
+		const { rows } = await sql<{ schema: string; name: string; value: string }>`
+			select n.nspname as schema, t.typname as name, e.enumlabel as value
+			from pg_type t
+			join pg_namespace n on n.oid = t.typnamespace
+			join pg_enum e on e.enumtypid = t.oid
+			order by n.nspname, t.typname, e.enumsortorder
+		`.execute(db);
+
+		for (const { schema, name, value } of rows) {
+			const key = getQualifiedName(name, schema);
+			enums.set(key, [...(enums.get(key) ?? []), value]);
+		}
+	} else if (family === "mysql") {
+		const { rows } = await sql<{
+			table_name: string;
+			column_name: string;
+			column_type: string;
+		}>`
+			select table_name as table_name, column_name as column_name,
+				column_type as column_type
+			from information_schema.columns
+			where table_schema = database() and data_type = 'enum'
+		`.execute(db);
+
+		for (const row of rows) {
+			// column_type looks like enum('a','it''s')
+			const values = [...row.column_type.matchAll(/'((?:[^']|'')*)'/g)].map(
+				(match) => (match[1] ?? "").replaceAll("''", "'"),
+			);
+			enums.set(`${row.table_name}.${row.column_name}`, values);
+		}
+	}
+
+	return enums;
+}
+
+/**
+ * Generates a TypeScript module declaring a `Database` interface for the
+ * current schema, read through the dialect's introspector
+ *
+ * Columns with a default or an auto-incrementing value are wrapped in
+ * `Generated<>`, nullable ones get `| null`. PostgreSQL enum types become
+ * exported union types, MySQL enum columns inline unions. Tables outside
+ * PostgreSQL's `public` schema are keyed `schema.table`. Type names that
+ * would collide get a `Table` or `Enum` suffix.
+ *
+ * @example
+ * ```ts
+ * await Bun.write('src/database.ts', await generateTypes(db))
+ * ```
+ */
+export async function generateTypes<DB>(
+	db: Kysely<DB>,
+	options: GenerateTypesOptions = {},
+): Promise<string> {
+	const executor = db as unknown as Kysely<unknown>;
+	const family = getAdapterFamily(executor);
+	const types = options.types ?? {};
+	const exclude = new Set(options.exclude);
+
+	const tables = (await executor.introspection.getTables())
+		.filter((table) => !exclude.has(table.name))
+		.sort((a, b) => getTableKey(a).localeCompare(getTableKey(b)));
+	const enums = await getEnumValues(executor, family);
+
+	const allocateName = createNameAllocator();
+
+	// PostgreSQL enums used by some column get a named type
+	const enumNames = new Map<string, string>();
+
+	if (family === "postgres") {
+		const usedEnums = new Set<string>();
+
+		for (const table of tables) {
+			for (const column of table.columns) {
+				const name = getQualifiedName(
+					column.dataType.replace(/^_/, ""),
+					column.dataTypeSchema,
+				);
+
+				if (enums.has(name)) {
+					usedEnums.add(name);
+				}
+			}
+		}
+
+		for (const name of [...usedEnums].sort()) {
+			enumNames.set(name, allocateName(name, "Enum"));
+		}
+	}
+
+	const interfaceNames = new Map(
+		tables.map((table) => [table, allocateName(getTableKey(table), "Table")]),
+	);
+
+	let usesGenerated = false;
+	const declarations: string[] = [];
+
+	for (const [name, typeName] of enumNames) {
+		declarations.push(
+			`export type ${typeName} = ${toUnion(enums.get(name) ?? [])};`,
+		);
+	}
+
+	for (const table of tables) {
+		const properties = table.columns.map((column) => {
+			const kind = types.columns?.[column.name];
+			let type =
+				family === "postgres"
+					? postgresType(
+							column.dataType,
+							column.dataTypeSchema,
+							types,
+							kind,
+							enumNames,
+						)
+					: family === "mysql"
+						? mysqlType(table.name, column, types, kind, enums)
+						: sqliteType(column.dataType, types, kind);
+
+			// Auto-incrementing keys are never read back as null
+			if (column.isNullable && !column.isAutoIncrementing) {
+				type = `${type} | null`;
+			}
+
+			if (column.hasDefaultValue || column.isAutoIncrementing) {
+				usesGenerated = true;
+				type = `Generated<${type}>`;
+			}
+
+			return `\t${quoteKey(column.name)}: ${type};`;
+		});
+
+		declarations.push(
+			`export interface ${interfaceNames.get(table)} {\n${properties.join("\n")}\n}`,
+		);
+	}
+
+	const database = tables.map(
+		(table) =>
+			`\t${quoteKey(getTableKey(table))}: ${interfaceNames.get(table)};`,
+	);
+	declarations.push(`export interface Database {\n${database.join("\n")}\n}`);
+
+	const imports = usesGenerated
+		? 'import type { Generated } from "kysely";\n\n'
+		: "";
+
+	return `${HEADER}\n${imports}${declarations.join("\n\n")}\n`;
+}
+
+function getQualifiedName(name: string, schema: string | undefined): string {
+	return schema && schema !== "public" ? `${schema}.${name}` : name;
+}
+
+function getTableKey({ name, schema }: TableMetadata): string {
+	return getQualifiedName(name, schema);
+}
@@ -0,0 +1,864 @@
+import type { ReservedSQL, SQL } from "bun";
+import {
+	CompiledQuery,
+	type DatabaseConnection,
+	type QueryResult,
+} from "kysely";
+import type { BunSQLAdapterName } from "./adapter";
+import type { BunSQLOptions } from "./config";
+import {
+	type BunSQLQueryError,
+	InvalidQueryOptionsError,
+	QueryCancelledError,
+	QueryTimeoutError,
+	toBunSQLQueryError,
+} from "./errors";
+import type { ListenOptions, NotificationHandler, Unsubscribe } from "./listen";
+import { redactParameters } from "./logging";
+import { getQueryOptions } from "./query-context";
+import { isReadOnlyQuery, type ReplicaRouter } from "./replicas";
+import type { StatementCache } from "./statement-cache";
+import type { StatsCollector } from "./stats";
+import {
+	endSpan,
+	getDatabaseAttributes,
+	getOperationName,
+	startSpan,
+} from "./tracing";
+import { mapRows } from "./types";
+
+const DEFAULT_STREAM_CHUNK_SIZE = 100;
+
+/**
+ * How long a cancelled query gets to stop, and its server-side cancel to get
+ * a pooled connection, before the caller is rejected regardless
+ */
+const CANCEL_GRACE_PERIOD = 1_000;
+
+// Session variables holding the mark of `BunSQLConnection.setMark`
+const MARK_SETTING = "kysely_bun_sql.mark";
+const MARK_VARIABLE = "kysely_bun_sql_mark";
+
+/**
+ * Metadata Bun attaches to every result array returned by `unsafe()`
+ */
+interface BunSQLResultMetadata {
+	count?: number | null;
+	command?: string | null;
+	lastInsertRowid?: number | bigint | null;
+	affectedRows?: number | bigint | null;
+}
+
+const WRITE_COMMANDS = new Set([
+	"INSERT",
+	"UPDATE",
+	"DELETE",
+	"MERGE",
+	"REPLACE",
+]);
+const INSERT_COMMANDS = new Set(["INSERT", "REPLACE"]);
+
+/**
+ * Maps a Bun result array and its metadata onto Kysely's QueryResult
+ *
+ * - `numAffectedRows` comes from `affectedRows` (MySQL) or `count` (Postgres, SQLite)
+ * - `numChangedRows` stays undefined: Bun does not pass on the rows MySQL
+ *   reports as changed, only the affected row count
+ * - `insertId` comes from `lastInsertRowid` (MySQL, SQLite) for inserts only
+ */
+function toQueryResult<O>(result: unknown[]): QueryResult<O> {
+	const { count, command, lastInsertRowid, affectedRows } =
+		result as BunSQLResultMetadata;
+	const rows = result as O[];
+	const normalizedCommand = command?.toUpperCase();
+
+	const isWrite = normalizedCommand
+		? WRITE_COMMANDS.has(normalizedCommand)
+		: affectedRows != null;
+
+	if (!isWrite) {
+		return { rows };
+	}
+
+	const affected = affectedRows ?? count;
+	const numAffectedRows = affected != null ? BigInt(affected) : undefined;
+	const insertId =
+		(normalizedCommand === undefined ||
+			INSERT_COMMANDS.has(normalizedCommand)) &&
+		lastInsertRowid != null &&
+		BigInt(lastInsertRowid) !== 0n
+			? BigInt(lastInsertRowid)
+			: undefined;
+
+	return {
+		rows,
+		numAffectedRows,
+		insertId,
+	};
+}
+
+/**
+ * Whether a query can back a Postgres cursor, which only takes a `select`
+ */
+function isCursorQuery({ query, sql }: CompiledQuery): boolean {
+	return (
+		query.kind === "SelectQueryNode" ||
+		(query.kind === "RawNode" && /^\s*select\b/i.test(sql))
+	);
+}
+
+/**
+ * Whether `limit ? offset ?` can be appended to a query: a select without a
+ * limit of its own or a trailing locking clause
+ */
+function isWindowQuery({ query }: CompiledQuery): boolean {
+	return (
+		query.kind === "SelectQueryNode" &&
+		!query.limit &&
+		!query.offset &&
+		!query.fetch &&
+		!query.top &&
+		!query.explain &&
+		!query.endModifiers?.length
+	);
+}
+
+interface ExecuteOptions {
+	timeout: number | undefined;
+	signal: AbortSignal | undefined;
+	prepare: boolean;
+}
+
+/**
+ * Where a running query is cancelled server-side: the pool it came from and
+ * the id of the physical connection it runs on
+ */
+interface ServerCancel {
+	pool: SQL;
+	connectionId: () => Promise<string>;
+}
+
+/**
+ * Resolves with `promise`, or with `undefined` once the cancel grace period
+ * is over
+ */
+async function withinGracePeriod<T>(
+	promise: Promise<T>,
+): Promise<T | undefined> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	try {
+		return await Promise.race([
+			promise,
+			new Promise<undefined>((resolve) => {
+				timer = setTimeout(() => resolve(undefined), CANCEL_GRACE_PERIOD);
+			}),
+		]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Everything a BunSQLConnection needs from its driver
+ */
+export interface BunSQLConnectionConfig {
+	/**
+	 * The reserved connection, or the shared SQL instance for SQLite
+	 */
+	db: ReservedSQL | SQL;
+	/**
+	 * The pool `db` was reserved from, used to cancel queries server-side
+	 */
+	pool: SQL;
+	adapter: BunSQLAdapterName;
+	options: BunSQLOptions;
+	replicas?: ReplicaRouter;
+	stats?: StatsCollector;
+	/**
+	 * Normalizes column values according to `BunSQLOptions.types`
+	 */
+	mapValue?: (value: unknown, column: string) => unknown;
+	/**
+	 * Returns the prepared statement cache of a physical connection, when
+	 * `BunSQLOptions.statementCacheSize` is set
+	 */
+	statementCache?: (connectionId: string) => StatementCache;
+	/**
+	 * Subscribes on the driver's dedicated listener connection
+	 */
+	listen?: <T>(
+		channel: string,
+		handler: NotificationHandler<T>,
+		options?: ListenOptions<T>,
+	) => Promise<Unsubscribe>;
+}
+
+/**
+ * Bun SQL Connection - wraps a Bun SQL instance
+ * Handles query execution and result mapping
+ */
+export class BunSQLConnection implements DatabaseConnection {
+	readonly #db: ReservedSQL | SQL;
+	readonly #pool: SQL;
+	readonly #adapter: BunSQLAdapterName;
+	readonly #options: BunSQLOptions;
+	readonly #replicas?: ReplicaRouter;
+	readonly #stats?: StatsCollector;
+	readonly #mapValue?: (value: unknown, column: string) => unknown;
+	readonly #statementCache?: (connectionId: string) => StatementCache;
+	readonly #listen?: BunSQLConnectionConfig["listen"];
+
+	#cursorCount = 0;
+	#connectionId?: Promise<string>;
+
+	/**
+	 * The id `#connectionId` resolved to, once it did
+	 */
+	#knownConnectionId?: string;
+
+	/**
+	 * Whether BunSQLDriver has an open transaction on this connection
+	 */
+	inTransaction = false;
+
+	/**
+	 * Whether a statement ran on the primary through this connection. Reads
+	 * then stay there too, as in a `db.connection()` scope they may depend on
+	 * its writes or session state.
+	 */
+	pinned = false;
+
+	constructor(config: BunSQLConnectionConfig) {
+		this.#db = config.db;
+		this.#pool = config.pool;
+		this.#adapter = config.adapter;
+		this.#options = config.options;
+		this.#replicas = config.replicas;
+		this.#stats = config.stats;
+		this.#mapValue = config.mapValue;
+		this.#statementCache = config.statementCache;
+		this.#listen = config.listen;
+	}
+
+	/**
+	 * Returns the server-side id of the physical connection behind this one,
+	 * which Bun may share between successive reservations. SQLite only ever
+	 * has one.
+	 */
+	async getConnectionId(): Promise<string> {
+		if (this.#adapter === "sqlite") {
+			return "sqlite";
+		}
+
+		this.#connectionId ??= this.#queryConnectionId(this.#db).then((id) => {
+			this.#knownConnectionId = id;
+			return id;
+		});
+
+		return this.#connectionId;
+	}
+
+	/**
+	 * Asks for the server-side id of the physical connection behind `db`.
+	 * Bypasses executeQuery, which needs the id itself to cancel queries.
+	 */
+	async #queryConnectionId(
+		db: ReservedSQL | SQL,
+		replica = false,
+	): Promise<string> {
+		const sql =
+			this.#adapter === "postgres"
+				? "select pg_backend_pid() as id"
+				: "select connection_id() as id";
+		const rows = await this.#runInternal(
+			db.unsafe<{ id: unknown }[]>(sql),
+			CompiledQuery.raw(sql),
+			undefined,
+			replica,
+		);
+
+		return String(rows[0]?.id);
+	}
+
+	/**
+	 * Awaits a statement the dialect runs itself outside executeQuery, and
+	 * reports it to `onQuery` like any other
+	 */
+	async #runInternal<T>(
+		query: SQL.Query<T>,
+		compiledQuery: CompiledQuery,
+		connectionId: string | undefined,
+		replica = false,
+	): Promise<T> {
+		const startedAt = performance.now();
+		let result: T;
+
+		try {
+			result = await query;
+		} catch (error) {
+			this.#emitQueryEvent(compiledQuery, startedAt, replica, connectionId, {
+				error: toBunSQLQueryError(error, this.#adapter, compiledQuery.sql),
+			});
+			throw error;
+		}
+
+		this.#emitQueryEvent(compiledQuery, startedAt, replica, connectionId, {
+			result: Array.isArray(result) ? toQueryResult(result) : undefined,
+		});
+		return result;
+	}
+
+	/**
+	 * Whether the physical connection behind this one carries `mark`, as set
+	 * by `setMark`. Marks are session variables, so they stay with the
+	 * connection across reservations and are gone after a session reset.
+	 * Costs one statement; SQLite has no session to mark and answers `false`.
+	 */
+	async hasMark(mark: string): Promise<boolean> {
+		if (this.#adapter === "sqlite") {
+			return false;
+		}
+
+		const sql =
+			this.#adapter === "postgres"
+				? `select current_setting('${MARK_SETTING}', true) as mark`
+				: `select @${MARK_VARIABLE} as mark`;
+		const rows = await this.#runInternal(
+			this.#db.unsafe<{ mark: unknown }[]>(sql),
+			CompiledQuery.raw(sql),
+			this.#knownConnectionId,
+		);
+
+		return rows[0]?.mark === mark;
+	}
+
+	/**
+	 * Marks the physical connection behind this one for `hasMark`
+	 */
+	async setMark(mark: string): Promise<void> {
+		if (this.#adapter === "sqlite") {
+			return;
+		}
+
+		const sql =
+			this.#adapter === "postgres"
+				? `select set_config('${MARK_SETTING}', $1, false)`
+				: `set @${MARK_VARIABLE} = ?`;
+
+		await this.#runInternal(
+			this.#db.unsafe(sql, [mark]),
+			CompiledQuery.raw(sql, [mark]),
+			this.#knownConnectionId,
+		);
+	}
+
+	/**
+	 * Subscribes to a notification channel. The subscription outlives this
+	 * connection, it runs on a dedicated one shared by every subscription.
+	 */
+	listen<T>(
+		channel: string,
+		handler: NotificationHandler<T>,
+		options?: ListenOptions<T>,
+	): Promise<Unsubscribe> {
+		if (!this.#listen) {
+			throw new Error("This connection does not support LISTEN");
+		}
+
+		return this.#listen(channel, handler, options);
+	}
+
+	/**
+	 * Returns the underlying reserved connection to Bun's pool. Connections
+	 * wrapping the shared SQL instance (SQLite) have nothing to release.
+	 */
+	release(): void {
+		if ("release" in this.#db) {
+			this.#db.release();
+		}
+	}
+
+	async executeQuery<O>(compiledQuery: CompiledQuery): Promise<QueryResult<O>> {
+		const { sql } = compiledQuery;
+		const {
+			timeout = this.#options.queryTimeout,
+			signal,
+			primary,
+			replica: allowRaw,
+			prepare = true,
+		} = getQueryOptions();
+
+		if (!prepare && compiledQuery.parameters.length > 0) {
+			throw new InvalidQueryOptionsError(
+				"prepare",
+				"prepare: false only applies to statements without parameters, set BunSQLOptions.prepare to stop preparing the others",
+			);
+		}
+
+		const replica =
+			this.#replicas !== undefined &&
+			!primary &&
+			!this.inTransaction &&
+			!this.pinned &&
+			isReadOnlyQuery(compiledQuery, allowRaw);
+
+		if (!replica) {
+			this.pinned = true;
+		}
+
+		const operation = getOperationName(sql);
+		const span = startSpan(this.#options.tracer, operation ?? "query", {
+			...getDatabaseAttributes(this.#adapter, this.#pool),
+			"db.statement": sql,
+			"db.operation": operation,
+		});
+		const executeOptions = { timeout, signal, prepare };
+		// Asked for before the query is sent, so Bun pipelines the two and the
+		// id is known by the time the query returns
+		const connectionId =
+			this.#options.onQuery && !replica
+				? this.getConnectionId().catch(() => undefined)
+				: undefined;
+		const startedAt = performance.now();
+		let result: QueryResult<O>;
+
+		try {
+			const raw =
+				this.#replicas && replica
+					? await this.#replicas.run((target) => {
+							span?.setAttributes(getDatabaseAttributes(this.#adapter, target));
+							return this.#executeOnReplica(
+								target,
+								compiledQuery,
+								executeOptions,
+							);
+						})
+					: await this.#executeOnConnection(compiledQuery, executeOptions);
+
+			// Non-array results shouldn't happen with unsafe
+			result = Array.isArray(raw) ? toQueryResult<O>(raw) : { rows: [] as O[] };
+
+			if (this.#mapValue) {
+				mapRows(result.rows, this.#mapValue);
+			}
+		} catch (error) {
+			const queryError = toBunSQLQueryError(error, this.#adapter, sql);
+			this.#stats?.queryExecuted(true);
+			endSpan(span, queryError);
+			this.#emitQueryEvent(
+				compiledQuery,
+				startedAt,
+				replica,
+				await connectionId,
+				{ error: queryError },
+			);
+			throw queryError;
+		}
+
+		this.#stats?.queryExecuted(false);
+		endSpan(span);
+		this.#emitQueryEvent(
+			compiledQuery,
+			startedAt,
+			replica,
+			await connectionId,
+			{ result },
+		);
+		return result;
+	}
+
+	/**
+	 * Reports a finished statement to `onQuery`. Never throws: a broken
+	 * listener must not fail the query.
+	 */
+	#emitQueryEvent(
+		{ sql, parameters }: CompiledQuery,
+		startedAt: number,
+		replica: boolean,
+		connectionId: string | undefined,
+		outcome: { result?: QueryResult<unknown>; error?: BunSQLQueryError },
+	): void {
+		const { onQuery, redactParameters: redaction } = this.#options;
+
+		if (!onQuery) {
+			return;
+		}
+
+		const durationMs = performance.now() - startedAt;
+
+		try {
+			onQuery({
+				sql,
+				parameters: redactParameters(redaction, parameters, sql),
+				durationMs,
+				rowCount: outcome.result?.rows.length ?? 0,
+				numAffectedRows: outcome.result?.numAffectedRows,
+				adapter: this.#adapter,
+				connectionId,
+				replica,
+				error: outcome.error,
+			});
+		} catch {
+			// Logging is best effort
+		}
+	}
+
+	/**
+	 * Runs a query on this connection, counting it against the connection's
+	 * prepared statement cache if it gets prepared
+	 */
+	async #executeOnConnection(
+		compiledQuery: CompiledQuery,
+		options: ExecuteOptions,
+	): Promise<unknown> {
+		if (
+			this.#statementCache &&
+			options.prepare &&
+			this.#pool.options.prepare !== false
+		) {
+			const cache = this.#statementCache(await this.getConnectionId());
+			this.#stats?.statementPrepared(cache.use(compiledQuery.sql));
+		}
+
+		return this.#execute(this.#db, compiledQuery, options, {
+			pool: this.#pool,
+			connectionId: () => this.getConnectionId(),
+		});
+	}
+
+	/**
+	 * Runs a read on a replica. Cancellable ones get a reserved replica
+	 * connection, whose id the server-side cancel needs.
+	 */
+	async #executeOnReplica(
+		replica: SQL,
+		compiledQuery: CompiledQuery,
+		options: ExecuteOptions,
+	): Promise<unknown> {
+		if ((!options.timeout && !options.signal) || this.#adapter === "sqlite") {
+			return this.#execute(replica, compiledQuery, options);
+		}
+
+		const reserved = await replica.reserve();
+
+		try {
+			return await this.#execute(reserved, compiledQuery, options, {
+				pool: replica,
+				connectionId: () => this.#queryConnectionId(reserved, true),
+			});
+		} finally {
+			reserved.release();
+		}
+	}
+
+	async #execute(
+		target: ReservedSQL | SQL,
+		{ sql, parameters }: CompiledQuery,
+		{ timeout, signal, prepare }: ExecuteOptions,
+		server?: ServerCancel,
+	): Promise<unknown> {
+		// Execute the query using Bun's SQL API with unsafe for dynamic SQL.
+		// Simple queries skip preparation but cannot carry parameters.
+		const query = prepare
+			? target.unsafe<unknown>(sql, [...parameters])
+			: target.unsafe<unknown>(sql).simple();
+
+		if (timeout || signal) {
+			return this.#executeCancellable(query, sql, timeout, signal, server);
+		}
+
+		return query;
+	}
+
+	/**
+	 * Runs a query that is cancelled when `timeout` elapses or `signal` aborts.
+	 * Bun's `cancel()` only stops queries it has not sent yet, so running ones
+	 * are also cancelled server-side through another connection of `server`'s
+	 * pool.
+	 *
+	 * The server-side cancel needs the connection's id, which costs one extra
+	 * statement per reservation. It is sent right before the query so Bun
+	 * pipelines the two. The returned promise rejects once the query stopped,
+	 * or after a grace period if the cancel could not reach it: a starved pool
+	 * may have no connection to send it through. The connection then queues
+	 * later statements behind the query.
+	 */
+	async #executeCancellable(
+		query: SQL.Query<unknown>,
+		sql: string,
+		timeout: number | undefined,
+		signal: AbortSignal | undefined,
+		server: ServerCancel | undefined,
+	): Promise<unknown> {
+		const errorOptions = { adapter: this.#adapter, sql };
+
+		if (signal?.aborted) {
+			throw new QueryCancelledError("Bun SQL query was cancelled", {
+				...errorOptions,
+				cause: signal.reason,
+			});
+		}
+
+		const connectionId =
+			this.#adapter === "sqlite" || !server
+				? Promise.resolve(undefined)
+				: server.connectionId().catch(() => undefined);
+
+		return new Promise((resolve, reject) => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			let cancelled = false;
+
+			const cleanup = () => {
+				clearTimeout(timer);
+				signal?.removeEventListener("abort", onAbort);
+			};
+
+			const settled = query.then(
+				(result) => {
+					cleanup();
+					if (!cancelled) {
+						resolve(result);
+					}
+				},
+				(error) => {
+					cleanup();
+					if (!cancelled) {
+						reject(error);
+					}
+				},
+			);
+
+			const cancel = async (error: BunSQLQueryError) => {
+				cancelled = true;
+				cleanup();
+				query.cancel();
+
+				if (server) {
+					await this.#cancelOnServer(
+						server.pool,
+						await withinGracePeriod(connectionId),
+					);
+				}
+
+				await withinGracePeriod(settled);
+				reject(error);
+			};
+
+			const onAbort = () =>
+				void cancel(
+					new QueryCancelledError("Bun SQL query was cancelled", {
+						...errorOptions,
+						cause: signal?.reason,
+					}),
+				);
+
+			if (timeout) {
+				timer = setTimeout(
+					() =>
+						void cancel(
+							new QueryTimeoutError(
+								`Bun SQL query timed out after ${timeout}ms`,
+								errorOptions,
+							),
+						),
+					timeout,
+				);
+			}
+
+			signal?.addEventListener("abort", onAbort, { once: true });
+		});
+	}
+
+	/**
+	 * Asks the server to stop whatever the given connection is running.
+	 * Best effort: failures are ignored, the caller already got its error.
+	 * A cancel still waiting for a pooled connection after the grace period
+	 * is dropped, as it would hit a later statement.
+	 */
+	async #cancelOnServer(
+		pool: SQL,
+		connectionId: string | undefined,
+	): Promise<void> {
+		const id = Number(connectionId);
+
+		if (!Number.isInteger(id)) {
+			return;
+		}
+
+		const sql =
+			this.#adapter === "postgres"
+				? `select pg_cancel_backend(${id})`
+				: `kill query ${id}`;
+		const cancel = pool.unsafe(sql);
+
+		try {
+			const sent = this.#runInternal(
+				cancel,
+				CompiledQuery.raw(sql),
+				undefined,
+				pool !== this.#pool,
+			);
+
+			if ((await withinGracePeriod(sent)) === undefined) {
+				cancel.cancel();
+			}
+		} catch {
+			// The query may have finished in the meantime
+		}
+	}
+
+	async *streamQuery<R>(
+		compiledQuery: CompiledQuery,
+		chunkSize = DEFAULT_STREAM_CHUNK_SIZE,
+	): AsyncIterableIterator<QueryResult<R>> {
+		if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+			throw new Error("chunkSize must be a positive integer");
+		}
+
+		if (this.#adapter === "postgres" && isCursorQuery(compiledQuery)) {
+			yield* this.#streamWithCursor<R>(compiledQuery, chunkSize);
+		} else if (isWindowQuery(compiledQuery)) {
+			yield* this.#streamWithWindows<R>(compiledQuery, chunkSize);
+		} else {
+			yield* this.#streamAtOnce<R>(compiledQuery, chunkSize);
+		}
+	}
+
+	/**
+	 * Streams through a Postgres server-side cursor. Cursors only live inside a
+	 * transaction, so one is opened (and committed afterwards) unless Kysely
+	 * already started one on this connection. The cursor is closed once the
+	 * rows are read or the caller stops early; after a failed fetch the
+	 * transaction is aborted and only its rollback gets rid of the cursor.
+	 */
+	async *#streamWithCursor<R>(
+		compiledQuery: CompiledQuery,
+		chunkSize: number,
+	): AsyncIterableIterator<QueryResult<R>> {
+		const cursor = `kysely_cursor_${++this.#cursorCount}`;
+		const ownsTransaction = !this.inTransaction;
+
+		if (ownsTransaction) {
+			await this.executeQuery(CompiledQuery.raw("begin"));
+		}
+
+		let completed = false;
+
+		try {
+			await this.executeQuery(
+				CompiledQuery.raw(
+					`declare ${cursor} no scroll cursor for ${compiledQuery.sql}`,
+					[...compiledQuery.parameters],
+				),
+			);
+
+			let fetchFailed = false;
+
+			try {
+				while (true) {
+					const result = await this.executeQuery<R>(
+						CompiledQuery.raw(`fetch forward ${chunkSize} from ${cursor}`),
+					).catch((error) => {
+						fetchFailed = true;
+						throw error;
+					});
+
+					if (result.rows.length > 0) {
+						yield { rows: result.rows };
+					}
+
+					if (result.rows.length < chunkSize) {
+						break;
+					}
+				}
+			} finally {
+				if (!fetchFailed) {
+					await this.executeQuery(CompiledQuery.raw(`close ${cursor}`));
+				}
+			}
+
+			completed = true;
+		} finally {
+			if (ownsTransaction) {
+				await this.executeQuery(
+					CompiledQuery.raw(completed ? "commit" : "rollback"),
+				);
+			}
+		}
+	}
+
+	/**
+	 * Streams MySQL and SQLite results in `limit`/`offset` windows, since Bun
+	 * exposes no cursor or statement iterator for them. The window is appended
+	 * to the query itself, so its `order by` applies to every window; the
+	 * query should have a deterministic one. Each window skips the rows
+	 * before it again.
+	 *
+	 * The windows read one snapshot, so concurrent writes cannot shift rows
+	 * between them: a consistent snapshot transaction on MySQL (which needs
+	 * the default `repeatable read`), a deferred one on SQLite. One is opened
+	 * unless Kysely already started one on this connection.
+	 */
+	async *#streamWithWindows<R>(
+		compiledQuery: CompiledQuery,
+		chunkSize: number,
+	): AsyncIterableIterator<QueryResult<R>> {
+		const ownsTransaction = !this.inTransaction;
+
+		if (ownsTransaction) {
+			await this.executeQuery(
+				CompiledQuery.raw(
+					this.#adapter === "sqlite"
+						? "begin"
+						: "start transaction with consistent snapshot",
+				),
+			);
+		}
+
+		let completed = false;
+
+		try {
+			for (let offset = 0; ; offset += chunkSize) {
+				const result = await this.executeQuery<R>(
+					CompiledQuery.raw(`${compiledQuery.sql} limit ? offset ?`, [
+						...compiledQuery.parameters,
+						chunkSize,
+						offset,
+					]),
+				);
+
+				if (result.rows.length > 0) {
+					yield { rows: result.rows };
+				}
+
+				if (result.rows.length < chunkSize) {
+					break;
+				}
+			}
+
+			completed = true;
+		} finally {
+			if (ownsTransaction) {
+				await this.executeQuery(
+					CompiledQuery.raw(completed ? "commit" : "rollback"),
+				);
+			}
+		}
+	}
+
+	/**
+	 * Runs the statement once and yields its rows in chunks. Used for writes
+	 * with `returning` and selects that cannot be windowed.
+	 */
+	async *#streamAtOnce<R>(
+		compiledQuery: CompiledQuery,
+		chunkSize: number,
+	): AsyncIterableIterator<QueryResult<R>> {
+		const { rows } = await this.executeQuery<R>(compiledQuery);
+
+		for (let start = 0; start < rows.length; start += chunkSize) {
+			yield { rows: rows.slice(start, start + chunkSize) };
+		}
+	}
+}
@@ -0,0 +1,412 @@
+import { type Compilable, type Kysely, sql, type Transaction } from "kysely";
+import { getAdapterFamily } from "./adapter";
+import { UnsupportedAdapterError } from "./errors";
+
+/**
+ * A row to load, either keyed by column or with values in column order
+ */
+export type CopyRow = Record<string, unknown> | readonly unknown[];
+
+/**
+ * Rows, or CSV text given whole or in chunks (such as `Bun.file().stream()`)
+ */
+export type CopySource =
+	| string
+	| Iterable<CopyRow>
+	| AsyncIterable<CopyRow>
+	| AsyncIterable<string | Uint8Array>;
+
+export interface CopyFromOptions {
+	/**
+	 * Rows sent per statement
+	 *
+	 * @default 1000
+	 */
+	batchSize?: number;
+
+	/**
+	 * Whether the first CSV line holds column names and is skipped
+	 *
+	 * @default false
+	 */
+	header?: boolean;
+
+	/**
+	 * @default ","
+	 */
+	delimiter?: string;
+}
+
+export interface CopyToOptions {
+	/**
+	 * Whether the first line holds the column names
+	 *
+	 * @default false
+	 */
+	header?: boolean;
+
+	/**
+	 * @default ","
+	 */
+	delimiter?: string;
+
+	/**
+	 * Rows fetched from the cursor at a time
+	 *
+	 * @default 1000
+	 */
+	chunkSize?: number;
+}
+
+export interface CopyFromResult {
+	rowCount: number;
+}
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+function assertPostgres(db: Kysely<unknown>): void {
+	const family = getAdapterFamily(db);
+
+	if (family !== "postgres") {
+		throw new UnsupportedAdapterError(family, ["postgres"]);
+	}
+}
+
+/**
+ * Parses CSV the way PostgreSQL's `COPY ... (format csv)` reads it: an
+ * unquoted empty field is null, a quoted one an empty string
+ */
+export async function* parseCSV(
+	chunks: AsyncIterable<string> | Iterable<string>,
+	delimiter = ",",
+): AsyncGenerator<(string | null)[]> {
+	let row: (string | null)[] = [];
+	let field = "";
+	let quoted = false;
+	let inQuotes = false;
+	// A quote inside quotes either ends them or starts an escaped quote,
+	// which may only be known from the next chunk
+	let pendingQuote = false;
+	let started = false;
+
+	const endField = () => {
+		row.push(quoted || field !== "" ? field : null);
+		field = "";
+		quoted = false;
+	};
+
+	for await (const chunk of chunks) {
+		for (const char of chunk) {
+			if (pendingQuote) {
+				pendingQuote = false;
+
+				if (char === '"') {
+					field += '"';
+					continue;
+				}
+				inQuotes = false;
+			}
+
+			if (inQuotes) {
+				if (char === '"') {
+					pendingQuote = true;
+				} else {
+					field += char;
+				}
+				continue;
+			}
+
+			if (char === '"') {
+				inQuotes = true;
+				quoted = true;
+				started = true;
+			} else if (char === delimiter) {
+				endField();
+				started = true;
+			} else if (char === "\n") {
+				if (started) {
+					endField();
+					yield row;
+				}
+				row = [];
+				started = false;
+			} else if (char !== "\r") {
+				field += char;
+				started = true;
+			}
+		}
+	}
+
+	if (inQuotes && !pendingQuote) {
+		throw new Error("CSV ends inside a quoted field");
+	}
+	if (started) {
+		endField();
+		yield row;
+	}
+}
+
+async function* decodeText(
+	chunks: AsyncIterable<string | Uint8Array>,
+	first: string | Uint8Array,
+): AsyncGenerator<string> {
+	const decoder = new TextDecoder();
+	const decode = (chunk: string | Uint8Array) =>
+		typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+	yield decode(first);
+	for await (const chunk of chunks) {
+		yield decode(chunk);
+	}
+	yield decoder.decode();
+}
+
+/**
+ * Normalizes every kind of source into rows of values in column order
+ */
+async function* readRows(
+	source: CopySource,
+	columns: readonly string[],
+	{ header = false, delimiter = "," }: CopyFromOptions,
+): AsyncGenerator<readonly unknown[]> {
+	let csv: AsyncIterable<string> | Iterable<string> | undefined;
+	let rows: AsyncIterable<CopyRow> | Iterable<CopyRow> | undefined;
+
+	if (typeof source === "string") {
+		csv = [source];
+	} else if (Symbol.asyncIterator in source) {
+		// Peek at the first item to tell CSV chunks from rows
+		const iterator = (source as AsyncIterable<unknown>)[Symbol.asyncIterator]();
+		const first = await iterator.next();
+
+		if (first.done) {
+			return;
+		}
+
+		const rest = { [Symbol.asyncIterator]: () => iterator };
+
+		if (typeof first.value === "string" || first.value instanceof Uint8Array) {
+			csv = decodeText(rest as AsyncIterable<string | Uint8Array>, first.value);
+		} else {
+			rows = (async function* () {
+				yield first.value as CopyRow;
+				yield* rest as AsyncIterable<CopyRow>;
+			})();
+		}
+	} else {
+		rows = source;
+	}
+
+	if (csv) {
+		let skip = header;
+
+		for await (const values of parseCSV(csv, delimiter)) {
+			if (skip) {
+				skip = false;
+				continue;
+			}
+			if (values.length !== columns.length) {
+				throw new Error(
+					`CSV line has ${values.length} fields, expected ${columns.length}`,
+				);
+			}
+			yield values;
+		}
+		return;
+	}
+
+	for await (const row of rows ?? []) {
+		yield Array.isArray(row)
+			? row
+			: columns.map((column) => (row as Record<string, unknown>)[column]);
+	}
+}
+
+/**
+ * Encodes a value the way `jsonb_populate_recordset` reads it back into the
+ * column's type
+ */
+function toJSONValue(value: unknown): unknown {
+	if (value === undefined) {
+		return null;
+	}
+	if (typeof value === "bigint") {
+		return value.toString();
+	}
+	if (value instanceof Uint8Array) {
+		return `\\x${Buffer.from(value).toString("hex")}`;
+	}
+
+	return value;
+}
+
+/**
+ * Loads rows into a PostgreSQL table in batches, in one transaction unless
+ * `db` already is one
+ *
+ * Bun's PostgreSQL client does not implement the COPY sub-protocol, so each
+ * batch is a single `insert ... select from jsonb_populate_recordset(...)`
+ * with one parameter. This is far faster than `insertInto().values()`, and
+ * values are converted by the columns' types the way COPY converts its text.
+ *
+ * @example
+ * ```ts
+ * await copyFrom(db, 'users', ['id', 'name'], Bun.file('users.csv').stream(), {
+ *   header: true,
+ * })
+ * ```
+ *
+ * @throws {UnsupportedAdapterError} If `db` does not use PostgreSQL
+ */
+export async function copyFrom<DB, TB extends keyof DB & string>(
+	db: Kysely<DB> | Transaction<DB>,
+	table: TB,
+	columns: readonly (keyof DB[TB] & string)[],
+	source: CopySource,
+	options: CopyFromOptions = {},
+): Promise<CopyFromResult> {
+	assertPostgres(db as Kysely<unknown>);
+
+	const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+	if (!Number.isInteger(batchSize) || batchSize <= 0) {
+		throw new Error("batchSize must be a positive integer");
+	}
+
+	const columnList = sql.join(columns.map((column) => sql.ref(column)));
+
+	const run = async (executor: Kysely<DB>) => {
+		let rowCount = 0;
+		let batch: Record<string, unknown>[] = [];
+
+		const flush = async () => {
+			await sql`
+				insert into ${sql.table(table)} (${columnList})
+				select ${columnList}
+				from jsonb_populate_recordset(null::${sql.table(table)}, ${JSON.stringify(batch)}::jsonb)
+			`.execute(executor);
+			rowCount += batch.length;
+			batch = [];
+		};
+
+		for await (const values of readRows(source, columns, options)) {
+			batch.push(
+				Object.fromEntries(
+					columns.map((column, index) => [column, toJSONValue(values[index])]),
+				),
+			);
+
+			if (batch.length === batchSize) {
+				await flush();
+			}
+		}
+
+		if (batch.length > 0) {
+			await flush();
+		}
+
+		return { rowCount };
+	};
+
+	return db.isTransaction ? run(db) : db.transaction().execute(run);
+}
+
+function formatCSVValue(value: unknown, delimiter: string): string {
+	if (value === null || value === undefined) {
+		return "";
+	}
+
+	let text: string;
+
+	if (typeof value === "string") {
+		text = value;
+	} else if (typeof value === "boolean") {
+		text = value ? "t" : "f";
+	} else if (value instanceof Date) {
+		text = value.toISOString();
+	} else if (value instanceof Uint8Array) {
+		text = `\\x${Buffer.from(value).toString("hex")}`;
+	} else if (typeof value === "object") {
+		text = JSON.stringify(value);
+	} else {
+		text = String(value);
+	}
+
+	// Quoting empty strings keeps them apart from nulls
+	return text === "" || text.includes(delimiter) || /["\r\n]/.test(text)
+		? `"${text.replaceAll('"', '""')}"`
+		: text;
+}
+
+/**
+ * Exports the rows of a select query as CSV lines, streamed from a cursor on
+ * the connection of `db` (the transaction's, if it is one)
+ *
+ * The result is a `ReadableStream` of lines, which is also an async
+ * iterable. Like `copyFrom`, this stands in for `COPY ... TO STDOUT`, which
+ * Bun's client cannot run.
+ *
+ * @example
+ * ```ts
+ * const csv = copyTo(db, db.selectFrom('users').select(['id', 'name']), {
+ *   header: true,
+ * })
+ *
+ * await Bun.write('users.csv', new Response(csv))
+ * ```
+ *
+ * @throws {UnsupportedAdapterError} If `db` does not use PostgreSQL
+ */
+export function copyTo<DB>(
+	db: Kysely<DB> | Transaction<DB>,
+	query: Compilable,
+	options: CopyToOptions = {},
+): ReadableStream<string> {
+	assertPostgres(db as Kysely<unknown>);
+
+	const {
+		header = false,
+		delimiter = ",",
+		chunkSize = DEFAULT_BATCH_SIZE,
+	} = options;
+	const formatLine = (values: unknown[]) =>
+		`${values.map((value) => formatCSVValue(value, delimiter)).join(delimiter)}\n`;
+
+	async function* lines(): AsyncGenerator<string> {
+		let columns: string[] | undefined;
+
+		for await (const { rows } of db
+			.getExecutor()
+			.stream<Record<string, unknown>>(query.compile(), chunkSize)) {
+			for (const row of rows) {
+				if (!columns) {
+					columns = Object.keys(row);
+
+					if (header) {
+						yield formatLine(columns);
+					}
+				}
+
+				yield formatLine(columns.map((column) => row[column]));
+			}
+		}
+	}
+
+	const iterator = lines();
+
+	return new ReadableStream<string>({
+		async pull(controller) {
+			const { done, value } = await iterator.next();
+
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(value);
+			}
+		},
+		async cancel() {
+			// Closes the cursor and hands the connection back
+			await iterator.return(undefined);
+		},
+	});
+}
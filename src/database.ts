@@ -0,0 +1,67 @@
+import { SQL } from "bun";
+import type { BunSQLDatabase, BunSQLOptions } from "./config";
+
+/**
+ * Whether the value is a ready-made Bun SQL instance. SQL instances are
+ * callable (tagged templates), so they have to be told apart from factories.
+ */
+export function isSQLInstance(database: BunSQLDatabase): database is SQL {
+	return (
+		typeof database === "function" &&
+		"options" in database &&
+		"reserve" in database
+	);
+}
+
+/**
+ * Creates (or returns) the Bun SQL instance described by `database`.
+ * `defaults` only apply to instances created here, and lose to options given
+ * explicitly.
+ */
+export async function createSQL(
+	database: BunSQLDatabase,
+	defaults: { bigint?: boolean; prepare?: boolean } = {},
+): Promise<SQL> {
+	if (isSQLInstance(database)) {
+		return database;
+	}
+
+	if (typeof database === "function") {
+		return await database();
+	}
+
+	if (typeof database === "string" || database instanceof URL) {
+		return new SQL(database, defaults);
+	}
+
+	return new SQL({ ...defaults, ...database });
+}
+
+/**
+ * Whether the dialect owns the SQL instance and must close it on destroy.
+ * Instances passed in ready-made belong to the application by default.
+ */
+export function ownsDatabase(options: BunSQLOptions): boolean {
+	return options.ownsDatabase ?? !isSQLInstance(options.database);
+}
+
+/**
+ * Checks that the live SQL instance prepares statements the way
+ * `BunSQLOptions.prepare` asks for. SQLite has no server-side preparation.
+ *
+ * @throws {Error} If a ready-made instance was created with another `prepare`
+ */
+export function assertPrepareMatches(
+	prepare: boolean | undefined,
+	sql: SQL,
+): void {
+	if (prepare === undefined || sql.options.adapter === "sqlite") {
+		return;
+	}
+
+	if ((sql.options.prepare ?? true) !== prepare) {
+		throw new Error(
+			`BunSQLOptions.prepare is ${prepare} but the SQL instance was created with prepare: ${!prepare}`,
+		);
+	}
+}
@@ -7,24 +7,20 @@ import type {
 	QueryCompiler,
 } from "kysely";
 import {
-	MysqlAdapter,
-	MysqlIntrospector,
-	MysqlQueryCompiler,
-	PostgresAdapter,
-	PostgresIntrospector,
-	PostgresQueryCompiler,
-	SqliteAdapter,
-	SqliteIntrospector,
-	SqliteQueryCompiler,
-} from "kysely";
-import { BunSQLDriver } from "./driver";
+	type BunSQLAdapterSupport,
+	getAdapterSupport,
+	resolveAdapter,
+} from "./adapter";
 import type { BunSQLOptions } from "./config";
+import { BunSQLDriver } from "./driver";
+import { type BunSQLStats, emptyStats } from "./stats";
 
 /**
  * Bun SQL Dialect for Kysely
  *
  * Provides support for PostgreSQL, MySQL, and SQLite databases through Bun's native SQL runtime.
- * The dialect automatically detects the database type based on the connection string.
+ * The dialect detects the database type from the connection string or SQL
+ * instance, unless `adapter` is given explicitly.
  *
  * Example usage:
  * ```ts
@@ -40,59 +36,49 @@ import type { BunSQLOptions } from "./config";
  */
 export class BunSQLDialect implements Dialect {
 	readonly #options: BunSQLOptions;
+	readonly #support: BunSQLAdapterSupport;
+	#driver?: BunSQLDriver;
 
+	/**
+	 * @throws {UnsupportedAdapterError} If the adapter is not supported
+	 */
 	constructor(options: BunSQLOptions) {
 		this.#options = options;
+		this.#support = getAdapterSupport(resolveAdapter(options));
 	}
 
 	createDriver(): Driver {
-		return new BunSQLDriver(this.#options.database);
+		this.#driver = new BunSQLDriver(this.#options);
+		return this.#driver;
+	}
+
+	/**
+	 * Returns the pool, query and transaction statistics of the driver. All
+	 * zero until Kysely creates the driver.
+	 *
+	 * @example
+	 * ```ts
+	 * const dialect = new BunSQLDialect({ database })
+	 * const db = new Kysely<Database>({ dialect })
+	 *
+	 * const { reservedConnections, connectionWaitTimeMs } = dialect.getStats()
+	 * ```
+	 */
+	getStats(): BunSQLStats {
+		return this.#driver?.getStats() ?? emptyStats();
 	}
 
 	createQueryCompiler(): QueryCompiler {
-		switch (this.#options.database.options.adapter) {
-			case "sqlite":
-				return new SqliteQueryCompiler();
-			case "mariadb":
-				return new MysqlQueryCompiler();
-			case "mysql":
-				return new MysqlQueryCompiler();
-			case "postgres":
-				return new PostgresQueryCompiler();
-			default:
-				return new PostgresQueryCompiler();
-		}
+		return this.#support.createQueryCompiler();
 	}
 
 	createAdapter(): DialectAdapter {
-		switch (this.#options.database.options.adapter) {
-			case "sqlite":
-				return new SqliteAdapter();
-			case "mariadb":
-				return new MysqlAdapter();
-			case "mysql":
-				return new MysqlAdapter();
-			case "postgres":
-				return new PostgresAdapter();
-			default:
-				return new PostgresAdapter();
-		}
+		return this.#support.createAdapter();
 	}
 
 	createIntrospector(
 		db: Kysely<Record<string, unknown>>,
 	): DatabaseIntrospector {
-		switch (this.#options.database.options.adapter) {
-			case "sqlite":
-				return new SqliteIntrospector(db);
-			case "mariadb":
-				return new MysqlIntrospector(db);
-			case "mysql":
-				return new MysqlIntrospector(db);
-			case "postgres":
-				return new PostgresIntrospector(db);
-			default:
-				return new PostgresIntrospector(db);
-		}
+		return this.#support.createIntrospector(db);
 	}
 }
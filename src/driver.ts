@@ -1,126 +1,533 @@
 import type { ReservedSQL, SQL } from "bun";
 import {
 	CompiledQuery,
+	createQueryId,
 	type DatabaseConnection,
 	type Driver,
-	type QueryResult,
-	type TransactionSettings,
+	IdentifierNode,
+	type QueryCompiler,
+	RawNode,
 } from "kysely";
+import {
+	assertAdapterMatches,
+	type BunSQLAdapterName,
+	resolveAdapter,
+} from "./adapter";
+import type { BunSQLOptions } from "./config";
+import { BunSQLConnection } from "./connection";
+import { assertPrepareMatches, createSQL, ownsDatabase } from "./database";
+import { ConnectionLockTimeoutError, UnsupportedAdapterError } from "./errors";
+import {
+	type ListenOptions,
+	type NotificationHandler,
+	subscribe,
+	type Unsubscribe,
+} from "./listen";
+import { getQueryOptions } from "./query-context";
+import { ReplicaRouter } from "./replicas";
+import { StatementCache } from "./statement-cache";
+import { type BunSQLStats, StatsCollector } from "./stats";
+import {
+	type BunSQLSpan,
+	endSpan,
+	getDatabaseAttributes,
+	startSpan,
+	traceOperation,
+} from "./tracing";
+import {
+	type BunSQLTransactionSettings,
+	compileBeginTransaction,
+} from "./transaction";
+import { createValueMapper } from "./types";
+
+const DEFAULT_SQLITE_LOCK_TIMEOUT = 30_000;
+
+/** Bun's pool size when `max` is not set */
+const DEFAULT_POOL_SIZE = 10;
 
 /**
  * Bun SQL Driver for Kysely
  * Provides support for PostgreSQL, MySQL, and SQLite via Bun's native SQL runtime
  */
 export class BunSQLDriver implements Driver {
-	readonly #database: SQL;
+	readonly #options: BunSQLOptions;
+	readonly #adapter: BunSQLAdapterName;
+	#database?: SQL;
 
-	#connection?: ReservedSQL;
+	/**
+	 * Connections currently handed out to Kysely, each owning its own reserved
+	 * Bun connection (if any)
+	 */
+	readonly #connections = new Set<BunSQLConnection>();
 
-	constructor(database: SQL) {
-		this.#database = database;
+	/**
+	 * SQLite has a single connection, shared by every BunSQLConnection. The
+	 * mutex gives each acquirer exclusive use of it until released, so a `begin`
+	 * in one Kysely transaction never captures unrelated concurrent queries.
+	 */
+	readonly #sqliteMutex = new ConnectionMutex();
+
+	/**
+	 * Marks the physical connections `onCreateConnection` already ran on,
+	 * unique to this driver
+	 */
+	readonly #createdMark = crypto.randomUUID();
+
+	/**
+	 * Whether `onCreateConnection` ran on the single SQLite connection
+	 */
+	#sqliteCreated = false;
+
+	readonly #replicas?: ReplicaRouter;
+
+	/**
+	 * Spans of the open transactions, ended on commit or rollback
+	 */
+	readonly #transactionSpans = new WeakMap<BunSQLConnection, BunSQLSpan>();
+
+	readonly #stats = new StatsCollector();
+
+	readonly #mapValue?: (value: unknown, column: string) => unknown;
+
+	/**
+	 * Prepared statement texts per physical connection id, tracked only when
+	 * `statementCacheSize` is set. Kept in least recently used order and
+	 * bounded by the pool size, so ids of connections the pool recycled drop
+	 * out instead of piling up.
+	 */
+	readonly #statementCaches = new Map<string, StatementCache>();
+
+	/**
+	 * Open LISTEN subscriptions, stopped on destroy since a SQL instance the
+	 * dialect does not own keeps its listener connection open
+	 */
+	readonly #subscriptions = new Set<Unsubscribe>();
+
+	constructor(options: BunSQLOptions) {
+		this.#options = options;
+		this.#adapter = resolveAdapter(options);
+		this.#mapValue = createValueMapper(this.#adapter, options.types);
+
+		const { statementCacheSize } = options;
+
+		if (
+			statementCacheSize !== undefined &&
+			(!Number.isInteger(statementCacheSize) || statementCacheSize <= 0)
+		) {
+			throw new Error("statementCacheSize must be a positive integer");
+		}
+
+		const { sqliteLockTimeout } = options;
+
+		if (
+			sqliteLockTimeout !== undefined &&
+			(Number.isNaN(sqliteLockTimeout) || sqliteLockTimeout <= 0)
+		) {
+			throw new Error("sqliteLockTimeout must be a positive number");
+		}
+
+		if (options.sqliteTransactionMode !== undefined) {
+			// Rejects the mode up front on other adapters
+			compileBeginTransaction(this.#adapter, {
+				sqliteTransactionMode: options.sqliteTransactionMode,
+			});
+		}
+
+		if (options.replicas?.length) {
+			this.#replicas = new ReplicaRouter(
+				options.replicas,
+				options.replicaStrategy ?? "round-robin",
+			);
+		}
 	}
 
 	async init(): Promise<void> {
-		// Bun SQL is already initialized, nothing to do here
+		const database = await createSQL(this.#options.database, {
+			bigint: this.#options.types?.bigint ? true : undefined,
+			prepare: this.#options.prepare,
+		});
+
+		try {
+			assertAdapterMatches(this.#adapter, database);
+			assertPrepareMatches(this.#options.prepare, database);
+
+			for (const replica of this.#options.replicas ?? []) {
+				assertAdapterMatches(this.#adapter, replica);
+			}
+		} catch (error) {
+			if (ownsDatabase(this.#options)) {
+				await database.close();
+			}
+			throw error;
+		}
+
+		this.#database = database;
+	}
+
+	get #sql(): SQL {
+		if (!this.#database) {
+			throw new Error("BunSQLDriver has not been initialized");
+		}
+
+		return this.#database;
 	}
 
 	async acquireConnection(): Promise<DatabaseConnection> {
-		if (this.#database.options.adapter === "sqlite") {
-			return new BunSQLConnection(this.#database);
+		return traceOperation(
+			this.#options.tracer,
+			"db.connection.acquire",
+			getDatabaseAttributes(this.#adapter, this.#sql),
+			() => this.#acquireConnection(),
+		);
+	}
+
+	async #acquireConnection(): Promise<BunSQLConnection> {
+		const startedAt = performance.now();
+		let db: ReservedSQL | SQL;
+
+		if (this.#adapter === "sqlite") {
+			await this.#sqliteMutex.lock(
+				this.#options.sqliteLockTimeout ?? DEFAULT_SQLITE_LOCK_TIMEOUT,
+			);
+			db = this.#sql;
+		} else {
+			db = await this.#sql.reserve();
+		}
+
+		this.#stats.connectionReserved(performance.now() - startedAt);
+
+		const connection = new BunSQLConnection({
+			db,
+			pool: this.#sql,
+			adapter: this.#adapter,
+			options: this.#options,
+			// Replica reads run on no reserved connection the hooks could set up,
+			// so with hooks they stay on the primary
+			replicas:
+				this.#options.onCreateConnection || this.#options.onReserveConnection
+					? undefined
+					: this.#replicas,
+			stats: this.#stats,
+			mapValue: this.#mapValue,
+			statementCache:
+				this.#options.statementCacheSize === undefined
+					? undefined
+					: (id) => this.#getStatementCache(id),
+			listen: (channel, handler, options) =>
+				this.#listen(channel, handler, options),
+		});
+		this.#connections.add(connection);
+
+		try {
+			await this.#runCreateConnectionHook(connection);
+			await this.#options.onReserveConnection?.(connection);
+		} catch (error) {
+			// A failing hook must not keep the connection out of the pool
+			this.#release(connection);
+			throw error;
+		}
+
+		return connection;
+	}
+
+	/**
+	 * Runs `onCreateConnection` the first time a physical connection is handed
+	 * out. Bun reuses pooled connections behind new ReservedSQL wrappers, so
+	 * the hook marks the session, which costs one statement per reservation
+	 * to check.
+	 */
+	async #runCreateConnectionHook(connection: BunSQLConnection): Promise<void> {
+		const { onCreateConnection } = this.#options;
+
+		if (!onCreateConnection) {
+			return;
+		}
+
+		if (this.#adapter === "sqlite") {
+			if (!this.#sqliteCreated) {
+				await onCreateConnection(connection);
+				this.#sqliteCreated = true;
+			}
+			return;
+		}
+
+		if (await connection.hasMark(this.#createdMark)) {
+			return;
 		}
-		this.#connection = await this.#database.reserve();
-		return new BunSQLConnection(this.#connection);
+
+		await onCreateConnection(connection);
+		await connection.setMark(this.#createdMark);
+	}
+
+	#getStatementCache(connectionId: string): StatementCache {
+		let cache = this.#statementCaches.get(connectionId);
+
+		if (cache) {
+			this.#statementCaches.delete(connectionId);
+		} else {
+			cache = new StatementCache(this.#options.statementCacheSize ?? 0);
+		}
+
+		this.#statementCaches.set(connectionId, cache);
+
+		const limit = this.#sql.options.max ?? DEFAULT_POOL_SIZE;
+
+		for (const id of this.#statementCaches.keys()) {
+			if (this.#statementCaches.size <= limit) {
+				break;
+			}
+
+			this.#statementCaches.delete(id);
+		}
+
+		return cache;
+	}
+
+	/**
+	 * Subscribes to a PostgreSQL notification channel on the dedicated
+	 * listener connection, returning a function that unsubscribes
+	 *
+	 * @throws {UnsupportedAdapterError} If the adapter is not PostgreSQL
+	 */
+	async #listen<T>(
+		channel: string,
+		handler: NotificationHandler<T>,
+		options?: ListenOptions<T>,
+	): Promise<Unsubscribe> {
+		if (this.#adapter !== "postgres") {
+			throw new UnsupportedAdapterError(this.#adapter, ["postgres"]);
+		}
+
+		const unlisten = await subscribe(this.#sql, channel, handler, options);
+		const unsubscribe = async () => {
+			if (this.#subscriptions.delete(unsubscribe)) {
+				await unlisten();
+			}
+		};
+		this.#subscriptions.add(unsubscribe);
+
+		return unsubscribe;
 	}
 
 	async beginTransaction(
 		connection: DatabaseConnection,
-		settings?: TransactionSettings,
+		settings?: BunSQLTransactionSettings,
 	): Promise<void> {
-		if (settings?.isolationLevel || settings?.accessMode) {
-			let sql = "start transaction";
+		const bunConnection = connection as BunSQLConnection;
+		const span = startSpan(this.#options.tracer, "db.transaction", {
+			...getDatabaseAttributes(this.#adapter, this.#sql),
+			"db.transaction.isolation_level": settings?.isolationLevel,
+			"db.transaction.access_mode": settings?.accessMode,
+		});
 
-			if (settings?.isolationLevel) {
-				sql += ` isolation level ${settings.isolationLevel}`;
-			}
+		try {
+			const statements = compileBeginTransaction(this.#adapter, {
+				...settings,
+				sqliteTransactionMode:
+					settings?.sqliteTransactionMode ??
+					getQueryOptions().sqliteTransactionMode ??
+					this.#options.sqliteTransactionMode,
+			});
 
-			if (settings?.accessMode) {
-				sql += ` ${settings.accessMode}`;
+			for (const sql of statements) {
+				await connection.executeQuery(CompiledQuery.raw(sql));
 			}
+		} catch (error) {
+			endSpan(span, error);
+			throw error;
+		}
 
-			await connection.executeQuery(CompiledQuery.raw(sql));
-		} else {
-			await connection.executeQuery(CompiledQuery.raw("begin"));
+		bunConnection.inTransaction = true;
+		this.#stats.transactionStarted();
+
+		if (span) {
+			this.#transactionSpans.set(bunConnection, span);
 		}
 	}
 
 	async commitTransaction(connection: DatabaseConnection): Promise<void> {
-		await connection.executeQuery(CompiledQuery.raw("commit"));
+		await this.#endTransaction(connection as BunSQLConnection, "commit");
 	}
 
 	async rollbackTransaction(connection: DatabaseConnection): Promise<void> {
-		await connection.executeQuery(CompiledQuery.raw("rollback"));
+		await this.#endTransaction(connection as BunSQLConnection, "rollback");
 	}
 
-	async releaseConnection(): Promise<void> {
-		if (this.#connection) {
-			this.#connection.release();
+	async #endTransaction(
+		connection: BunSQLConnection,
+		command: "commit" | "rollback",
+	): Promise<void> {
+		const span = this.#transactionSpans.get(connection);
+		this.#transactionSpans.delete(connection);
+		span?.setAttribute("db.transaction.outcome", command);
+
+		try {
+			await connection.executeQuery(CompiledQuery.raw(command));
+		} catch (error) {
+			endSpan(span, error);
+			throw error;
 		}
+
+		connection.inTransaction = false;
+		this.#stats.transactionEnded(command);
+		endSpan(span);
 	}
 
-	async destroy(): Promise<void> {
-		await this.#database.close();
+	async savepoint(
+		connection: DatabaseConnection,
+		savepointName: string,
+		compileQuery: QueryCompiler["compileQuery"],
+	): Promise<void> {
+		await connection.executeQuery(
+			compileQuery(
+				parseSavepointCommand("savepoint", savepointName),
+				createQueryId(),
+			),
+		);
 	}
-}
 
-/**
- * Bun SQL Connection - wraps a Bun SQL instance
- * Handles query execution and result mapping
- */
-class BunSQLConnection implements DatabaseConnection {
-	readonly #db: ReservedSQL | SQL;
+	async rollbackToSavepoint(
+		connection: DatabaseConnection,
+		savepointName: string,
+		compileQuery: QueryCompiler["compileQuery"],
+	): Promise<void> {
+		await connection.executeQuery(
+			compileQuery(
+				parseSavepointCommand("rollback to savepoint", savepointName),
+				createQueryId(),
+			),
+		);
+	}
 
-	constructor(db: ReservedSQL | SQL) {
-		this.#db = db;
+	async releaseSavepoint(
+		connection: DatabaseConnection,
+		savepointName: string,
+		compileQuery: QueryCompiler["compileQuery"],
+	): Promise<void> {
+		await connection.executeQuery(
+			compileQuery(
+				parseSavepointCommand("release savepoint", savepointName),
+				createQueryId(),
+			),
+		);
 	}
 
-	async executeQuery<O>(compiledQuery: CompiledQuery): Promise<QueryResult<O>> {
-		const { sql, parameters } = compiledQuery;
+	async releaseConnection(connection: DatabaseConnection): Promise<void> {
+		const bunConnection = connection as BunSQLConnection;
+
+		if (!this.#connections.has(bunConnection)) {
+			return;
+		}
 
 		try {
-			// Execute the query using Bun's SQL API with unsafe for dynamic SQL
-			const result = await this.#db.unsafe<unknown>(sql, [...parameters]);
-
-			// Check if result is an array (SELECT query)
-			if (Array.isArray(result)) {
-				return {
-					rows: result as O[],
-				};
+			await this.#options.onReleaseConnection?.(bunConnection);
+		} finally {
+			this.#release(bunConnection);
+		}
+	}
+
+	#release(connection: BunSQLConnection): void {
+		if (this.#connections.delete(connection)) {
+			connection.release();
+			this.#stats.connectionReleased();
+
+			if (connection.inTransaction) {
+				this.#stats.transactionAbandoned();
 			}
 
-			// Handle non-array results (shouldn't happen with unsafe)
-			return {
-				rows: [] as O[],
-			};
-		} catch (error) {
-			throw new Error(
-				`Bun SQL query execution failed: ${error instanceof Error ? error.message : String(error)}`,
-			);
+			if (this.#adapter === "sqlite") {
+				this.#sqliteMutex.unlock();
+			}
+		}
+	}
+
+	/**
+	 * A snapshot of the connection, query and transaction counters
+	 */
+	getStats(): BunSQLStats {
+		return this.#stats.snapshot();
+	}
+
+	async destroy(): Promise<void> {
+		// Hand back any connection Kysely never released before closing the pool
+		for (const connection of this.#connections) {
+			connection.release();
+		}
+		this.#connections.clear();
+		this.#sqliteCreated = false;
+		this.#statementCaches.clear();
+		this.#stats.driverDestroyed();
+		this.#sqliteMutex.unlock();
+
+		for (const unsubscribe of this.#subscriptions) {
+			await unsubscribe();
 		}
+
+		if (this.#database && ownsDatabase(this.#options)) {
+			await this.#database.close();
+		}
+		// Replicas are always passed in ready-made, so only an explicit
+		// ownership flag lets the dialect close them
+		if (this.#options.ownsDatabase) {
+			await this.#replicas?.close();
+		}
+		this.#database = undefined;
 	}
+}
 
-	streamQuery<R>(
-		compiledQuery: CompiledQuery,
-		_chunkSize?: number,
-	): AsyncIterableIterator<QueryResult<R>> {
-		// Streaming is not yet supported by Bun's SQL API
-		// Return an async generator that yields all results at once
-		const self = this;
+/**
+ * A FIFO lock handing out exclusive access to a single connection
+ */
+class ConnectionMutex {
+	#locked = false;
+	readonly #waiters: (() => void)[] = [];
 
-		async function* generator() {
-			const results = await self.executeQuery<R>(compiledQuery);
-			yield results;
+	/**
+	 * @throws {ConnectionLockTimeoutError} If the lock is not handed over
+	 * within `timeout` milliseconds
+	 */
+	async lock(timeout: number): Promise<void> {
+		if (!this.#locked) {
+			this.#locked = true;
+			return;
 		}
 
-		return generator();
+		await new Promise<void>((resolve, reject) => {
+			const timer = Number.isFinite(timeout)
+				? setTimeout(() => {
+						this.#waiters.splice(this.#waiters.indexOf(waiter), 1);
+						reject(new ConnectionLockTimeoutError(timeout));
+					}, timeout)
+				: undefined;
+			const waiter = () => {
+				clearTimeout(timer);
+				resolve();
+			};
+
+			this.#waiters.push(waiter);
+		});
 	}
+
+	unlock(): void {
+		const next = this.#waiters.shift();
+
+		if (next) {
+			// Ownership passes straight to the next waiter
+			next();
+		} else {
+			this.#locked = false;
+		}
+	}
+}
+
+/**
+ * Builds a savepoint statement whose name is quoted by the dialect's query
+ * compiler (double quotes on Postgres and SQLite, backticks on MySQL).
+ * The long `savepoint` forms are used as MySQL rejects a bare `release`.
+ */
+function parseSavepointCommand(command: string, savepointName: string) {
+	return RawNode.createWithChildren([
+		RawNode.createWithSql(`${command} `),
+		IdentifierNode.create(savepointName),
+	]);
 }
@@ -0,0 +1,388 @@
+import type { SQL } from "bun";
+
+/**
+ * The Bun SQL adapter an error originated from
+ */
+export type BunSQLErrorAdapter = NonNullable<SQL["options"]["adapter"]>;
+
+/**
+ * Normalized error fields shared by every adapter
+ */
+export interface BunSQLQueryErrorOptions {
+	adapter: BunSQLErrorAdapter;
+	/**
+	 * The code reported by Bun, e.g. `ERR_POSTGRES_SERVER_ERROR`,
+	 * `ER_DUP_ENTRY` or `SQLITE_CONSTRAINT_UNIQUE`
+	 */
+	code?: string;
+	/**
+	 * The five character SQLSTATE (PostgreSQL, MySQL)
+	 */
+	sqlState?: string;
+	/**
+	 * The numeric error code (MySQL errno, SQLite extended result code)
+	 */
+	errno?: number;
+	constraint?: string;
+	table?: string;
+	column?: string;
+	detail?: string;
+	hint?: string;
+	/**
+	 * The SQL text of the failing query, without parameter values
+	 */
+	sql?: string;
+	cause?: unknown;
+}
+
+/**
+ * Base class for every error raised while executing a query through
+ * BunSQLConnection. The original Bun error is kept as `cause`.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await db.insertInto('users').values(user).execute()
+ * } catch (error) {
+ *   if (error instanceof UniqueViolationError) {
+ *     return Response.json({ field: error.column }, { status: 409 })
+ *   }
+ *   throw error
+ * }
+ * ```
+ */
+export class BunSQLQueryError extends Error {
+	readonly adapter: BunSQLErrorAdapter;
+	readonly code?: string;
+	readonly sqlState?: string;
+	readonly errno?: number;
+	readonly constraint?: string;
+	readonly table?: string;
+	readonly column?: string;
+	readonly detail?: string;
+	readonly hint?: string;
+	readonly sql?: string;
+
+	constructor(message: string, options: BunSQLQueryErrorOptions) {
+		super(message, { cause: options.cause });
+		this.name = new.target.name;
+		this.adapter = options.adapter;
+		this.code = options.code;
+		this.sqlState = options.sqlState;
+		this.errno = options.errno;
+		this.constraint = options.constraint;
+		this.table = options.table;
+		this.column = options.column;
+		this.detail = options.detail;
+		this.hint = options.hint;
+		this.sql = options.sql;
+	}
+}
+
+/**
+ * A unique or primary key constraint was violated
+ */
+export class UniqueViolationError extends BunSQLQueryError {}
+
+/**
+ * A foreign key constraint was violated
+ */
+export class ForeignKeyViolationError extends BunSQLQueryError {}
+
+/**
+ * A NULL was written to a NOT NULL column
+ */
+export class NotNullViolationError extends BunSQLQueryError {}
+
+/**
+ * The transaction could not be serialized and should be retried
+ */
+export class SerializationFailureError extends BunSQLQueryError {}
+
+/**
+ * The transaction was chosen as a deadlock victim and should be retried
+ */
+export class DeadlockError extends BunSQLQueryError {}
+
+/**
+ * The connection to the database was lost while running the query
+ */
+export class ConnectionLostError extends BunSQLQueryError {}
+
+/**
+ * The database rejected the statement as syntactically invalid
+ */
+export class SQLSyntaxError extends BunSQLQueryError {}
+
+type BunSQLQueryErrorClass = new (
+	message: string,
+	options: BunSQLQueryErrorOptions,
+) => BunSQLQueryError;
+
+/**
+ * Raw error shape shared by Bun's PostgresError, MySQLError and SQLiteError
+ */
+interface BunError {
+	message?: string;
+	code?: string;
+	errno?: string | number;
+	sqlState?: string;
+	constraint?: string;
+	table?: string;
+	column?: string;
+	detail?: string;
+	hint?: string;
+}
+
+const SQLSTATE_PATTERN = /^[0-9A-Z]{5}$/;
+
+const POSTGRES_ERRORS: Record<string, BunSQLQueryErrorClass> = {
+	"23505": UniqueViolationError,
+	"23503": ForeignKeyViolationError,
+	"23502": NotNullViolationError,
+	"40001": SerializationFailureError,
+	"40P01": DeadlockError,
+	"42601": SQLSyntaxError,
+	"57P01": ConnectionLostError,
+	"57P02": ConnectionLostError,
+	"57P03": ConnectionLostError,
+};
+
+const MYSQL_ERRORS: Record<number, BunSQLQueryErrorClass> = {
+	1062: UniqueViolationError,
+	1586: UniqueViolationError,
+	1216: ForeignKeyViolationError,
+	1217: ForeignKeyViolationError,
+	1451: ForeignKeyViolationError,
+	1452: ForeignKeyViolationError,
+	1048: NotNullViolationError,
+	1213: DeadlockError,
+	1064: SQLSyntaxError,
+	1149: SQLSyntaxError,
+	2006: ConnectionLostError,
+	2013: ConnectionLostError,
+	4031: ConnectionLostError,
+};
+
+const SQLITE_ERRORS: Record<string, BunSQLQueryErrorClass> = {
+	SQLITE_CONSTRAINT_UNIQUE: UniqueViolationError,
+	SQLITE_CONSTRAINT_PRIMARYKEY: UniqueViolationError,
+	SQLITE_CONSTRAINT_FOREIGNKEY: ForeignKeyViolationError,
+	SQLITE_CONSTRAINT_NOTNULL: NotNullViolationError,
+	SQLITE_BUSY_SNAPSHOT: SerializationFailureError,
+};
+
+const CONNECTION_LOST_CODE = /CONNECTION_CLOSED|CONNECTION_TIMEOUT|SOCKET/;
+
+/**
+ * Converts any error thrown by Bun's SQL client into a BunSQLQueryError,
+ * choosing the most specific subclass for the adapter's error code
+ */
+export function toBunSQLQueryError(
+	error: unknown,
+	adapter: BunSQLErrorAdapter,
+	sql?: string,
+): BunSQLQueryError {
+	if (error instanceof BunSQLQueryError) {
+		return error;
+	}
+
+	const raw: BunError =
+		typeof error === "object" && error !== null ? (error as BunError) : {};
+	const message = raw.message ?? String(error);
+	const options =
+		adapter === "sqlite"
+			? parseSQLiteError(raw, message)
+			: adapter === "postgres"
+				? parsePostgresError(raw)
+				: parseMySQLError(raw, message);
+
+	const ErrorClass =
+		resolveErrorClass(adapter, options, message) ?? BunSQLQueryError;
+
+	return new ErrorClass(`Bun SQL query execution failed: ${message}`, {
+		...options,
+		adapter,
+		sql,
+		cause: error,
+	});
+}
+
+function resolveErrorClass(
+	adapter: BunSQLErrorAdapter,
+	options: Partial<BunSQLQueryErrorOptions>,
+	message: string,
+): BunSQLQueryErrorClass | undefined {
+	const { code, sqlState, errno } = options;
+
+	if (code && CONNECTION_LOST_CODE.test(code)) {
+		return ConnectionLostError;
+	}
+
+	switch (adapter) {
+		case "postgres":
+			if (sqlState?.startsWith("08")) {
+				return ConnectionLostError;
+			}
+			return sqlState ? POSTGRES_ERRORS[sqlState] : undefined;
+		case "sqlite":
+			if (code === "SQLITE_ERROR" && message.includes("syntax error")) {
+				return SQLSyntaxError;
+			}
+			return code ? SQLITE_ERRORS[code] : undefined;
+		default:
+			if (errno !== undefined && MYSQL_ERRORS[errno]) {
+				return MYSQL_ERRORS[errno];
+			}
+			return sqlState === "40001" ? SerializationFailureError : undefined;
+	}
+}
+
+function parsePostgresError(raw: BunError): Partial<BunSQLQueryErrorOptions> {
+	// Bun reports server errors with a generic `code` and the SQLSTATE in `errno`
+	const sqlState = [raw.errno, raw.code].find(
+		(value): value is string =>
+			typeof value === "string" && SQLSTATE_PATTERN.test(value),
+	);
+
+	return {
+		code: raw.code,
+		sqlState,
+		constraint: raw.constraint,
+		table: raw.table,
+		column: raw.column,
+		detail: raw.detail,
+		hint: raw.hint,
+	};
+}
+
+function parseMySQLError(
+	raw: BunError,
+	message: string,
+): Partial<BunSQLQueryErrorOptions> {
+	const errno = typeof raw.errno === "number" ? raw.errno : undefined;
+	// MySQL only names the offending key or column in the message text
+	const constraint =
+		/CONSTRAINT `([^`]+)`/.exec(message)?.[1] ??
+		/for key '(?:[^'.]+\.)?([^']+)'/.exec(message)?.[1];
+	const column = /Column '([^']+)'/.exec(message)?.[1];
+
+	return {
+		code: raw.code,
+		sqlState: raw.sqlState,
+		errno,
+		constraint,
+		column,
+	};
+}
+
+function parseSQLiteError(
+	raw: BunError,
+	message: string,
+): Partial<BunSQLQueryErrorOptions> {
+	const errno = typeof raw.errno === "number" ? raw.errno : undefined;
+	// e.g. "UNIQUE constraint failed: users.email"
+	const target = /constraint failed: (\w+)\.(\w+)/.exec(message);
+
+	return {
+		code: raw.code,
+		errno,
+		table: target?.[1],
+		column: target?.[2],
+	};
+}
+
+/**
+ * The transaction settings cannot be honored by the adapter, e.g. a
+ * `read committed` isolation level on SQLite. Raised before any statement is
+ * sent to the database.
+ */
+export class UnsupportedTransactionSettingsError extends Error {
+	readonly adapter: BunSQLErrorAdapter;
+	readonly setting: string;
+	readonly value: string;
+
+	constructor(adapter: BunSQLErrorAdapter, setting: string, value: string) {
+		super(`The ${adapter} adapter does not support ${setting} "${value}"`);
+		this.name = "UnsupportedTransactionSettingsError";
+		this.adapter = adapter;
+		this.setting = setting;
+		this.value = value;
+	}
+}
+
+/**
+ * The options of `withQueryOptions` cannot apply to the query, e.g.
+ * `prepare: false` for a statement with parameters. Raised before the query
+ * is sent.
+ */
+export class InvalidQueryOptionsError extends Error {
+	readonly option: string;
+
+	constructor(option: string, message: string) {
+		super(message);
+		this.name = "InvalidQueryOptionsError";
+		this.option = option;
+	}
+}
+
+/**
+ * The adapter is not one of those the dialect knows how to compile queries
+ * for
+ */
+export class UnsupportedAdapterError extends Error {
+	readonly adapter: string;
+
+	constructor(adapter: string, supported: readonly string[]) {
+		super(
+			`Unsupported Bun SQL adapter "${adapter}", expected one of: ${supported.join(", ")}`,
+		);
+		this.name = "UnsupportedAdapterError";
+		this.adapter = adapter;
+	}
+}
+
+/**
+ * The `adapter` option does not match the adapter of the live SQL instance,
+ * e.g. `adapter: "postgres"` with a `mysql://` URL
+ */
+export class AdapterMismatchError extends Error {
+	readonly expected: string;
+	readonly actual: string;
+
+	constructor(expected: string, actual: string) {
+		super(
+			`BunSQLOptions.adapter is "${expected}" but the SQL instance uses the "${actual}" adapter`,
+		);
+		this.name = "AdapterMismatchError";
+		this.expected = expected;
+		this.actual = actual;
+	}
+}
+
+/**
+ * No SQLite connection became free within `sqliteLockTimeout`. The single
+ * connection stays held by a transaction or `db.connection()` scope until it
+ * ends, so a query issued through `db` from inside one waits for itself.
+ */
+export class ConnectionLockTimeoutError extends Error {
+	readonly timeout: number;
+
+	constructor(timeout: number) {
+		super(
+			`Timed out after ${timeout}ms waiting for the SQLite connection. A transaction or connection scope holds it until it ends; queries inside one must run through its executor (e.g. trx), not db`,
+		);
+		this.name = "ConnectionLockTimeoutError";
+		this.timeout = timeout;
+	}
+}
+
+/**
+ * The query ran longer than its timeout and was cancelled
+ */
+export class QueryTimeoutError extends BunSQLQueryError {}
+
+/**
+ * The query was cancelled through its AbortSignal
+ */
+export class QueryCancelledError extends BunSQLQueryError {}
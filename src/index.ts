@@ -30,4 +30,83 @@
  */
 
 export { BunSQLDialect } from "./dialect";
-export type { BunSQLOptions } from "./config";
+export { bulkInsert } from "./bulk-insert";
+export type { BulkInsertOptions, BulkInsertResult } from "./bulk-insert";
+export { defineConfig } from "./cli-config";
+export type { BunSQLCliConfig } from "./cli-config";
+export { generateTypes } from "./codegen";
+export { copyFrom, copyTo } from "./copy";
+export type {
+	CopyFromOptions,
+	CopyFromResult,
+	CopyRow,
+	CopySource,
+	CopyToOptions,
+} from "./copy";
+export type { GenerateTypesOptions } from "./codegen";
+export type {
+	BunSQLDatabase,
+	BunSQLDatabaseFactory,
+	BunSQLOptions,
+} from "./config";
+export type { BunSQLAdapterName } from "./adapter";
+export { listen, notify } from "./listen";
+export type {
+	ListenOptions,
+	NotificationHandler,
+	Unsubscribe,
+} from "./listen";
+export type {
+	BunSQLParameterRedaction,
+	BunSQLQueryEvent,
+	BunSQLQueryListener,
+} from "./logging";
+export { SQLFileMigrationProvider } from "./migration-provider";
+export type { SQLFileMigrationProviderOptions } from "./migration-provider";
+export { withQueryOptions } from "./query-context";
+export type { BunSQLQueryOptions } from "./query-context";
+export type { ReplicaStrategy } from "./replicas";
+export {
+	isTransientError,
+	retryTransaction,
+	TransactionRetryError,
+} from "./retry";
+export type {
+	TransactionRetryEvent,
+	TransactionRetryOptions,
+	TransactionRetryResult,
+} from "./retry";
+export { executeScript, ScriptError } from "./script";
+export type { ExecuteScriptOptions, ScriptStatement } from "./script";
+export { formatPrometheusStats } from "./stats";
+export type { BunSQLStats, BunSQLWaitTimeStats } from "./stats";
+export type {
+	BunSQLSpan,
+	BunSQLSpanAttributes,
+	BunSQLSpanAttributeValue,
+	BunSQLSpanOptions,
+	BunSQLTracer,
+} from "./tracing";
+export {
+	AdapterMismatchError,
+	BunSQLQueryError,
+	ConnectionLockTimeoutError,
+	ConnectionLostError,
+	DeadlockError,
+	ForeignKeyViolationError,
+	InvalidQueryOptionsError,
+	NotNullViolationError,
+	QueryCancelledError,
+	QueryTimeoutError,
+	SerializationFailureError,
+	SQLSyntaxError,
+	UniqueViolationError,
+	UnsupportedAdapterError,
+	UnsupportedTransactionSettingsError,
+} from "./errors";
+export type { BunSQLErrorAdapter, BunSQLQueryErrorOptions } from "./errors";
+export type { BunSQLTypeMapping, BunSQLValueKind } from "./types";
+export type {
+	BunSQLTransactionSettings,
+	SQLiteTransactionMode,
+} from "./transaction";
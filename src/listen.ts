@@ -0,0 +1,158 @@
+import type { SQL } from "bun";
+import { type Kysely, sql, type Transaction } from "kysely";
+import { getAdapterFamily } from "./adapter";
+import type { BunSQLConnection } from "./connection";
+import { UnsupportedAdapterError } from "./errors";
+import { withQueryOptions } from "./query-context";
+
+/**
+ * Called with each notification's payload, parsed by `ListenOptions.parse`
+ */
+export type NotificationHandler<T = string> = (payload: T) => void;
+
+/**
+ * Stops a subscription; the listener connection is closed with the last one
+ */
+export type Unsubscribe = () => Promise<void>;
+
+export interface ListenOptions<T = string> {
+	/**
+	 * Turns the payload string into the value handed to the handler, e.g.
+	 * `JSON.parse`. A throwing parser skips the notification.
+	 */
+	parse?: (payload: string) => T;
+
+	/**
+	 * Called once `LISTEN` ran, and again every time the subscription is
+	 * restored after the listener connection was lost. Notifications sent
+	 * while it was down are gone, so this is where to resynchronize.
+	 */
+	onListen?: () => void;
+}
+
+/**
+ * The part of Bun's PostgreSQL client `listen` is built on. Bun runs every
+ * subscription of a SQL instance on one dedicated connection, outside the
+ * pool, and subscribes again after reconnecting.
+ */
+interface ListenableSQL {
+	listen(
+		channel: string,
+		onnotify: (payload: string) => void,
+		onlisten?: () => void,
+	): Promise<{ unlisten(): Promise<void> }>;
+}
+
+/**
+ * Whether the running Bun exposes `listen`, which its typings lack
+ */
+function isListenable(database: SQL): database is SQL & ListenableSQL {
+	return "listen" in database && typeof database.listen === "function";
+}
+
+/**
+ * Subscribes to `channel` on the dedicated listener connection of `database`
+ */
+export async function subscribe<T>(
+	database: SQL,
+	channel: string,
+	handler: NotificationHandler<T>,
+	{ parse, onListen }: ListenOptions<T> = {},
+): Promise<Unsubscribe> {
+	if (!isListenable(database)) {
+		throw new Error("This version of Bun does not support LISTEN");
+	}
+
+	const subscription = await database.listen(
+		channel,
+		(payload) => {
+			let value: T;
+
+			try {
+				value = parse ? parse(payload) : (payload as T);
+			} catch {
+				return;
+			}
+
+			handler(value);
+		},
+		onListen,
+	);
+
+	return () => subscription.unlisten();
+}
+
+/**
+ * Subscribes to a PostgreSQL notification channel, returning a function that
+ * unsubscribes. Subscriptions share one dedicated connection outside the
+ * pool, which is reconnected and subscribed again when it drops; `onListen`
+ * tells when that happened. `db.destroy()` stops them all.
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = await listen(
+ *   db,
+ *   'user_changed',
+ *   ({ id }) => cache.delete(id),
+ *   { parse: (payload) => JSON.parse(payload) as { id: number } },
+ * )
+ *
+ * await unsubscribe()
+ * ```
+ *
+ * @throws {UnsupportedAdapterError} If `db` does not use PostgreSQL
+ */
+export async function listen<DB, T = string>(
+	db: Kysely<DB>,
+	channel: string,
+	handler: NotificationHandler<T>,
+	options?: ListenOptions<T>,
+): Promise<Unsubscribe> {
+	// Borrowing a connection makes Kysely initialize the driver first
+	return db
+		.getExecutor()
+		.provideConnection((connection) =>
+			(connection as BunSQLConnection).listen(channel, handler, options),
+		);
+}
+
+/**
+ * Sends a notification on `channel` with `pg_notify`. Strings are sent as
+ * they are, anything else as JSON.
+ *
+ * Inside a transaction the notification is only delivered on commit, and not
+ * at all on rollback.
+ *
+ * @example
+ * ```ts
+ * await db.transaction().execute(async (trx) => {
+ *   await trx.updateTable('users').set({ name }).where('id', '=', id).execute()
+ *   await notify(trx, 'user_changed', { id })
+ * })
+ * ```
+ *
+ * @throws {UnsupportedAdapterError} If `db` does not use PostgreSQL
+ */
+export async function notify<DB>(
+	db: Kysely<DB> | Transaction<DB>,
+	channel: string,
+	payload?: unknown,
+): Promise<void> {
+	const family = getAdapterFamily(db as Kysely<unknown>);
+
+	if (family !== "postgres") {
+		throw new UnsupportedAdapterError(family, ["postgres"]);
+	}
+
+	const text =
+		payload === undefined
+			? ""
+			: typeof payload === "string"
+				? payload
+				: JSON.stringify(payload);
+
+	// Replicas are read-only and notify nobody listening on the primary
+	await withQueryOptions({ primary: true }, () =>
+		sql`select pg_notify(${channel}, ${text})`.execute(db),
+	);
+}
@@ -0,0 +1,75 @@
+import type { BunSQLAdapterName } from "./adapter";
+import type { BunSQLQueryError } from "./errors";
+
+/**
+ * A statement executed by BunSQLConnection, reported to `onQuery`
+ */
+export interface BunSQLQueryEvent {
+	/**
+	 * The SQL text, without parameter values
+	 */
+	sql: string;
+	/**
+	 * The bound parameters, after `redactParameters` was applied
+	 */
+	parameters: readonly unknown[];
+	/**
+	 * Wall-clock time from sending the statement to receiving its result
+	 */
+	durationMs: number;
+	/**
+	 * Number of rows returned, 0 for failed statements
+	 */
+	rowCount: number;
+	/**
+	 * Rows written by `insert`, `update`, `delete` and friends
+	 */
+	numAffectedRows?: bigint;
+	adapter: BunSQLAdapterName;
+	/**
+	 * Server-side id of the connection the statement ran on (see
+	 * `BunSQLConnection.getConnectionId`). Undefined for replica reads and
+	 * for the dialect's own statements run before the id was known.
+	 */
+	connectionId?: string;
+	/**
+	 * Whether the statement was routed to a read replica
+	 */
+	replica: boolean;
+	/**
+	 * Set when the statement failed
+	 */
+	error?: BunSQLQueryError;
+}
+
+/**
+ * Receives every statement executed by BunSQLConnection
+ */
+export type BunSQLQueryListener = (event: BunSQLQueryEvent) => void;
+
+/**
+ * How bound parameters are hidden from `onQuery`
+ *
+ * - `true` replaces every parameter with `"[redacted]"`
+ * - a function returns the parameters to report instead
+ */
+export type BunSQLParameterRedaction =
+	| boolean
+	| ((parameters: readonly unknown[], sql: string) => readonly unknown[]);
+
+export const REDACTED_PARAMETER = "[redacted]";
+
+/**
+ * Applies the configured redaction to a statement's parameters
+ */
+export function redactParameters(
+	redaction: BunSQLParameterRedaction | undefined,
+	parameters: readonly unknown[],
+	sql: string,
+): readonly unknown[] {
+	if (typeof redaction === "function") {
+		return redaction(parameters, sql);
+	}
+
+	return redaction ? parameters.map(() => REDACTED_PARAMETER) : parameters;
+}
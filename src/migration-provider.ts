@@ -0,0 +1,106 @@
+import { join } from "node:path";
+import type { Kysely, Migration, MigrationProvider } from "kysely";
+import { getAdapterFamily } from "./adapter";
+import { executeScript } from "./script";
+
+export interface SQLFileMigrationProviderOptions {
+	/**
+	 * Folder holding the `NNNN_name.up.sql` and `NNNN_name.down.sql` files
+	 */
+	migrationFolder: string;
+
+	/**
+	 * Runs each migration in its own transaction on adapters with
+	 * transactional DDL (PostgreSQL and SQLite). On PostgreSQL, Kysely's
+	 * Migrator wraps the whole batch in one transaction unless it is created
+	 * with `disableTransactions: true`, in which case a failing migration only
+	 * rolls back itself. MySQL commits DDL implicitly, so its migrations run
+	 * without a transaction.
+	 *
+	 * @default true
+	 */
+	transaction?: boolean;
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d+_.+)\.(up|down)\.sql$/;
+
+/**
+ * Provides migrations written as plain SQL files to Kysely's Migrator
+ *
+ * A migration is a `NNNN_name.up.sql` file, optionally paired with a
+ * `NNNN_name.down.sql` file reverting it. Migrations are named
+ * `NNNN_name` and sorted by name, so the numbers should be zero-padded.
+ * Each file runs as a script, see `executeScript`.
+ *
+ * `disableTransactions: true` gives every migration its own transaction.
+ * Concurrent runs stay serialized by BunSQLDialect's migration lock, which
+ * on PostgreSQL then becomes a session-level advisory lock.
+ *
+ * @example
+ * ```ts
+ * const migrator = new Migrator({
+ *   db,
+ *   provider: new SQLFileMigrationProvider({ migrationFolder: './migrations' }),
+ *   disableTransactions: true,
+ * })
+ *
+ * await migrator.migrateToLatest()
+ * ```
+ */
+export class SQLFileMigrationProvider implements MigrationProvider {
+	readonly #options: SQLFileMigrationProviderOptions;
+
+	constructor(options: SQLFileMigrationProviderOptions) {
+		this.#options = options;
+	}
+
+	/**
+	 * @throws {Error} If a `.down.sql` file has no matching `.up.sql` file
+	 */
+	async getMigrations(): Promise<Record<string, Migration>> {
+		const { migrationFolder } = this.#options;
+		const files = new Map<string, { up?: string; down?: string }>();
+
+		for await (const fileName of new Bun.Glob("*.sql").scan({
+			cwd: migrationFolder,
+		})) {
+			const match = MIGRATION_FILE_PATTERN.exec(fileName);
+
+			if (!match) {
+				continue;
+			}
+
+			const name = match[1] as string;
+			const direction = match[2] as "up" | "down";
+			const migration = files.get(name) ?? {};
+			migration[direction] = join(migrationFolder, fileName);
+			files.set(name, migration);
+		}
+
+		const migrations: Record<string, Migration> = {};
+
+		for (const [name, { up, down }] of files) {
+			if (!up) {
+				throw new Error(
+					`Migration "${name}" has a .down.sql file but no .up.sql file`,
+				);
+			}
+
+			migrations[name] = {
+				up: (db) => this.#run(db, up),
+				down: down ? (db) => this.#run(db, down) : undefined,
+			};
+		}
+
+		return migrations;
+	}
+
+	async #run(db: Kysely<unknown>, path: string): Promise<void> {
+		const { transaction = true } = this.#options;
+
+		// Kysely's SqliteAdapter claims no transactional DDL, but SQLite has it
+		await executeScript(db, await Bun.file(path).text(), {
+			transaction: transaction && getAdapterFamily(db) !== "mysql",
+		});
+	}
+}
@@ -0,0 +1,77 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { SQLiteTransactionMode } from "./transaction";
+
+/**
+ * Per-query options, applied to every query run inside `withQueryOptions`
+ */
+export interface BunSQLQueryOptions {
+	/**
+	 * Milliseconds after which a running query is cancelled with a
+	 * QueryTimeoutError. Overrides `BunSQLOptions.queryTimeout`; `0` disables
+	 * the timeout.
+	 */
+	timeout?: number;
+
+	/**
+	 * Cancels running queries with a QueryCancelledError when aborted
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * Sends reads to the primary even when replicas are configured, for
+	 * read-your-writes consistency
+	 */
+	primary?: boolean;
+
+	/**
+	 * Lets raw `sql` selects go to a replica. Only selects built with Kysely
+	 * do by default, since raw SQL may call functions with side effects.
+	 */
+	replica?: boolean;
+
+	/**
+	 * Locking mode of SQLite transactions begun inside the callback,
+	 * overriding `BunSQLOptions.sqliteTransactionMode`. Kysely's transaction
+	 * builder has no way to pass it along.
+	 */
+	sqliteTransactionMode?: SQLiteTransactionMode;
+
+	/**
+	 * `false` sends statements through the simple query protocol, so the
+	 * server never prepares them. Only statements without parameters can be
+	 * sent that way, others throw an InvalidQueryOptionsError. Preparation
+	 * cannot be turned back on for a connection created with `prepare: false`.
+	 */
+	prepare?: boolean;
+}
+
+const storage = new AsyncLocalStorage<BunSQLQueryOptions>();
+
+/**
+ * Runs `callback` with per-query options applied to every query it executes.
+ * Kysely has no way to pass options through to the driver, so they travel
+ * with the async context instead. Nested calls override the outer options.
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController()
+ *
+ * const users = await withQueryOptions(
+ *   { timeout: 5_000, signal: controller.signal },
+ *   () => db.selectFrom('users').selectAll().execute(),
+ * )
+ * ```
+ */
+export function withQueryOptions<T>(
+	options: BunSQLQueryOptions,
+	callback: () => T,
+): T {
+	return storage.run({ ...storage.getStore(), ...options }, callback);
+}
+
+/**
+ * Returns the per-query options of the current async context
+ */
+export function getQueryOptions(): BunSQLQueryOptions {
+	return storage.getStore() ?? {};
+}
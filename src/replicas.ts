@@ -0,0 +1,104 @@
+import type { SQL } from "bun";
+import type { CompiledQuery } from "kysely";
+
+/**
+ * How reads are spread over replicas
+ *
+ * - `round-robin` cycles through the replicas in order
+ * - `least-busy` picks the replica with the fewest queries in flight
+ */
+export type ReplicaStrategy = "round-robin" | "least-busy";
+
+const LOCKING_CLAUSE =
+	/\bfor\s+(update|share|no\s+key\s+update|key\s+share)\b|\block\s+in\s+share\s+mode\b/i;
+
+// Data-modifying CTEs and `select ... into` write despite looking like reads
+const WRITE_KEYWORD = /\b(insert|update|delete|merge|into)\b/i;
+
+// Functions with effects on the server or the session, callable from a select
+const SIDE_EFFECT_FUNCTION =
+	/\b(nextval|setval|set_config|pg_notify|pg_(try_)?advisory_\w+|pg_cancel_backend|pg_terminate_backend|lo_\w+|get_lock|release_lock|release_all_locks)\s*\(/i;
+
+/**
+ * Whether a query can safely run on a replica: a `select` (or a
+ * `with ... select`) that neither locks rows, writes nor calls a function
+ * with side effects. Raw statements only qualify if `allowRaw` is set, since
+ * the statement kind of raw SQL is only a guess.
+ */
+export function isReadOnlyQuery(
+	{ query, sql }: CompiledQuery,
+	allowRaw = false,
+): boolean {
+	if (
+		query.kind !== "SelectQueryNode" &&
+		!(allowRaw && query.kind === "RawNode")
+	) {
+		return false;
+	}
+
+	const text = sql.trimStart();
+
+	if (query.kind === "RawNode" && !/^(select|with)\b/i.test(text)) {
+		return false;
+	}
+
+	return (
+		!LOCKING_CLAUSE.test(text) &&
+		!WRITE_KEYWORD.test(text) &&
+		!SIDE_EFFECT_FUNCTION.test(text)
+	);
+}
+
+/**
+ * Spreads read queries over a set of replica SQL instances
+ */
+export class ReplicaRouter {
+	readonly #replicas: readonly SQL[];
+	readonly #strategy: ReplicaStrategy;
+	readonly #inFlight: number[];
+	#next = 0;
+
+	constructor(replicas: readonly SQL[], strategy: ReplicaStrategy) {
+		this.#replicas = replicas;
+		this.#strategy = strategy;
+		this.#inFlight = replicas.map(() => 0);
+	}
+
+	/**
+	 * Runs `execute` on the replica chosen by the strategy
+	 */
+	async run<T>(execute: (replica: SQL) => Promise<T>): Promise<T> {
+		const index = this.#pick();
+		const replica = this.#replicas[index] as SQL;
+
+		this.#inFlight[index] = (this.#inFlight[index] ?? 0) + 1;
+
+		try {
+			return await execute(replica);
+		} finally {
+			this.#inFlight[index] = (this.#inFlight[index] ?? 1) - 1;
+		}
+	}
+
+	async close(): Promise<void> {
+		await Promise.all(this.#replicas.map((replica) => replica.close()));
+	}
+
+	#pick(): number {
+		if (this.#strategy === "least-busy") {
+			let best = 0;
+
+			this.#inFlight.forEach((count, index) => {
+				if (count < (this.#inFlight[best] ?? 0)) {
+					best = index;
+				}
+			});
+
+			return best;
+		}
+
+		const index = this.#next;
+		this.#next = (this.#next + 1) % this.#replicas.length;
+		return index;
+	}
+}
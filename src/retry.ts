@@ -0,0 +1,184 @@
+import { Kysely, type Transaction, type TransactionBuilder } from "kysely";
+import {
+	BunSQLQueryError,
+	DeadlockError,
+	SerializationFailureError,
+} from "./errors";
+
+/**
+ * How `retryTransaction` retries
+ */
+export interface TransactionRetryOptions {
+	/**
+	 * Attempts in total, the first one included
+	 *
+	 * @default 5
+	 */
+	maxAttempts?: number;
+
+	/**
+	 * Delay before the first retry in milliseconds, doubled for every
+	 * following retry
+	 *
+	 * @default 10
+	 */
+	initialDelayMs?: number;
+
+	/**
+	 * Upper bound of the delay between two attempts in milliseconds
+	 *
+	 * @default 1000
+	 */
+	maxDelayMs?: number;
+
+	/**
+	 * Picks each delay at random between zero and the exponential delay
+	 * ("full jitter"), so transactions that conflicted once do not retry in
+	 * lockstep
+	 *
+	 * @default true
+	 */
+	jitter?: boolean;
+
+	/**
+	 * Decides whether an error is worth retrying
+	 *
+	 * @default isTransientError
+	 */
+	isRetryable?: (error: unknown) => boolean;
+
+	/**
+	 * Called before every retry, with the error of the attempt that failed
+	 */
+	onRetry?: (event: TransactionRetryEvent) => void;
+}
+
+export interface TransactionRetryEvent {
+	/**
+	 * The attempt that failed, starting at 1
+	 */
+	attempt: number;
+	error: unknown;
+	delayMs: number;
+}
+
+export interface TransactionRetryResult<T> {
+	result: T;
+	/**
+	 * Attempts it took, 1 if the first one succeeded
+	 */
+	attempts: number;
+}
+
+/**
+ * Every attempt of `retryTransaction` failed with a transient error. The
+ * error of the last attempt is kept as `cause`.
+ */
+export class TransactionRetryError extends Error {
+	readonly attempts: number;
+
+	constructor(attempts: number, cause: unknown) {
+		super(`Transaction failed after ${attempts} attempts`, { cause });
+		this.name = "TransactionRetryError";
+		this.attempts = attempts;
+	}
+}
+
+/**
+ * Whether the error is a transient transaction failure that goes away when
+ * the whole transaction is run again:
+ *
+ * - PostgreSQL `40001` (serialization failure) and `40P01` (deadlock)
+ * - MySQL/MariaDB 1213 (deadlock) and SQLSTATE `40001`
+ * - SQLite `SQLITE_BUSY` and its extended codes
+ *
+ * Errors wrapped by application code are recognized through their `cause`.
+ */
+export function isTransientError(error: unknown): boolean {
+	for (
+		let current = error, depth = 0;
+		current instanceof Error && depth < 10;
+		current = current.cause, depth++
+	) {
+		if (
+			current instanceof SerializationFailureError ||
+			current instanceof DeadlockError
+		) {
+			return true;
+		}
+
+		if (
+			current instanceof BunSQLQueryError &&
+			current.code?.startsWith("SQLITE_BUSY")
+		) {
+			return true;
+		}
+	}
+
+	return false;
+}
+
+/**
+ * Runs `callback` in a transaction, running the whole transaction again with
+ * exponential backoff when it fails with a transient error
+ *
+ * Pass a TransactionBuilder to control the isolation level or access mode.
+ * The callback may run several times, so it must not have side effects
+ * outside of the transaction.
+ *
+ * @throws {TransactionRetryError} If every attempt failed with a transient error
+ *
+ * @example
+ * ```ts
+ * const { result, attempts } = await retryTransaction(
+ *   db.transaction().setIsolationLevel('serializable'),
+ *   async (trx) => {
+ *     const { balance } = await trx.selectFrom('accounts').select('balance')
+ *       .where('id', '=', id).executeTakeFirstOrThrow()
+ *     return trx.updateTable('accounts').set({ balance: balance - amount })
+ *       .where('id', '=', id).execute()
+ *   },
+ *   { maxAttempts: 10 },
+ * )
+ * ```
+ */
+export async function retryTransaction<DB, T>(
+	db: Kysely<DB> | TransactionBuilder<DB>,
+	callback: (trx: Transaction<DB>) => Promise<T>,
+	options: TransactionRetryOptions = {},
+): Promise<TransactionRetryResult<T>> {
+	const {
+		maxAttempts = 5,
+		initialDelayMs = 10,
+		maxDelayMs = 1_000,
+		jitter = true,
+		isRetryable = isTransientError,
+		onRetry,
+	} = options;
+
+	if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+		throw new Error("maxAttempts must be a positive integer");
+	}
+
+	const transaction = db instanceof Kysely ? db.transaction() : db;
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return { result: await transaction.execute(callback), attempts: attempt };
+		} catch (error) {
+			if (!isRetryable(error)) {
+				throw error;
+			}
+
+			if (attempt >= maxAttempts) {
+				throw new TransactionRetryError(attempt, error);
+			}
+
+			const backoff = Math.min(maxDelayMs, initialDelayMs * 2 ** (attempt - 1));
+			const delayMs = jitter ? Math.random() * backoff : backoff;
+
+			onRetry?.({ attempt, error, delayMs });
+			await Bun.sleep(delayMs);
+		}
+	}
+}
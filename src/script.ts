@@ -0,0 +1,387 @@
+import {
+	CompiledQuery,
+	type Kysely,
+	type QueryResult,
+	type Transaction,
+} from "kysely";
+import { type BunSQLAdapterSupport, getAdapterFamily } from "./adapter";
+import { withQueryOptions } from "./query-context";
+
+type ScriptFamily = BunSQLAdapterSupport["family"];
+
+/**
+ * A single statement of a script
+ */
+export interface ScriptStatement {
+	sql: string;
+	/**
+	 * Line of the script the statement starts on, starting at 1
+	 */
+	line: number;
+}
+
+export interface ExecuteScriptOptions {
+	/**
+	 * Runs every statement in one transaction, rolled back if any of them
+	 * fails. Ignored when `db` already is a transaction. MySQL commits DDL
+	 * statements implicitly, so only DML is rolled back there.
+	 *
+	 * @default false
+	 */
+	transaction?: boolean;
+}
+
+/**
+ * A statement of a script failed. The error of the statement is kept as
+ * `cause`, statements before it were executed (or rolled back when the
+ * script ran in a transaction).
+ */
+export class ScriptError extends Error {
+	/**
+	 * Position of the failed statement in the script, starting at 1
+	 */
+	readonly statement: number;
+	readonly line: number;
+	readonly sql: string;
+
+	constructor(
+		statement: number,
+		{ sql, line }: ScriptStatement,
+		cause: unknown,
+	) {
+		super(
+			`Statement ${statement} of the script (line ${line}) failed: ${
+				cause instanceof Error ? cause.message : String(cause)
+			}`,
+			{ cause },
+		);
+		this.name = "ScriptError";
+		this.statement = statement;
+		this.line = line;
+		this.sql = sql;
+	}
+}
+
+const WORD_PATTERN = /[A-Za-z_][A-Za-z0-9_$]*/y;
+const DOLLAR_QUOTE_PATTERN = /\$([A-Za-z_][A-Za-z0-9_]*)?\$/y;
+
+// Enough leading words to get past `create or replace definer = ... `
+const MAX_LEADING_WORDS = 6;
+
+const OBJECT_KINDS = new Set([
+	"table",
+	"view",
+	"index",
+	"sequence",
+	"type",
+	"domain",
+	"schema",
+	"database",
+	"user",
+	"role",
+	"procedure",
+	"function",
+	"trigger",
+	"event",
+]);
+
+/**
+ * Objects whose body may hold statements of its own: SQLite triggers, MySQL
+ * routines, triggers and events, and PostgreSQL `begin atomic` routines
+ */
+const BODY_OBJECTS: Record<ScriptFamily, Set<string>> = {
+	postgres: new Set(["function", "procedure"]),
+	mysql: new Set(["procedure", "function", "trigger", "event"]),
+	sqlite: new Set(["trigger"]),
+};
+
+// MySQL flow control statements closed by `end if`, `end loop`, ...
+const MYSQL_BLOCK_STATEMENTS = new Set(["if", "loop", "while", "repeat"]);
+
+// Tokens after which a MySQL body statement starts
+const MYSQL_STATEMENT_START = new Set([
+	";",
+	":",
+	"begin",
+	"then",
+	"else",
+	"do",
+	"loop",
+	"repeat",
+]);
+
+/**
+ * Returns the kind of object a statement starting with `words` creates, if
+ * it is a `create` statement
+ */
+function getCreatedObject(words: string[]): string | undefined {
+	return words[0] === "create"
+		? words.find((word) => OBJECT_KINDS.has(word))
+		: undefined;
+}
+
+/**
+ * Returns by how much a keyword in the body of a trigger or routine changes
+ * the depth of its open blocks, given the token before it
+ */
+function getDepthChange(
+	family: ScriptFamily,
+	keyword: string,
+	previous: string,
+	depth: number,
+): number {
+	if (keyword === "end") {
+		return depth > 0 ? -1 : 0;
+	}
+
+	switch (family) {
+		case "sqlite":
+			return keyword === "begin" || keyword === "case" ? 1 : 0;
+		case "postgres":
+			// Other routine bodies are dollar-quoted strings
+			if (keyword === "atomic" && previous === "begin") {
+				return 1;
+			}
+			return keyword === "case" && depth > 0 ? 1 : 0;
+		case "mysql":
+			// The second word of `end if`, `end case`, ...
+			if (previous === "end") {
+				return 0;
+			}
+			if (keyword === "begin" || (keyword === "case" && depth > 0)) {
+				return 1;
+			}
+			// `if` and `repeat` are functions too, so only count statements
+			return depth > 0 &&
+				MYSQL_BLOCK_STATEMENTS.has(keyword) &&
+				MYSQL_STATEMENT_START.has(previous)
+				? 1
+				: 0;
+	}
+}
+
+/**
+ * Returns the index right after the quoted text starting at `start`. Quotes
+ * are escaped by doubling them, and on MySQL also by a backslash.
+ */
+function skipQuoted(script: string, start: number, family: ScriptFamily) {
+	const quote = script[start];
+
+	for (let i = start + 1; i < script.length; i++) {
+		if (script[i] === "\\" && family === "mysql" && quote !== "`") {
+			i++;
+		} else if (script[i] === quote) {
+			if (script[i + 1] !== quote) {
+				return i + 1;
+			}
+			i++;
+		}
+	}
+
+	return script.length;
+}
+
+/**
+ * Returns the index right after the block comment starting at `start`.
+ * PostgreSQL block comments nest.
+ */
+function skipBlockComment(script: string, start: number, family: ScriptFamily) {
+	let depth = 0;
+
+	for (let i = start; i < script.length - 1; i++) {
+		if (script[i] === "/" && script[i + 1] === "*") {
+			depth = family === "postgres" ? depth + 1 : 1;
+			i++;
+		} else if (script[i] === "*" && script[i + 1] === "/") {
+			depth--;
+			i++;
+
+			if (depth === 0) {
+				return i + 1;
+			}
+		}
+	}
+
+	return script.length;
+}
+
+/**
+ * Splits a script into its statements at the semicolons between them
+ *
+ * Semicolons in string literals, quoted identifiers, comments, PostgreSQL
+ * dollar-quoted and `begin atomic` bodies, SQLite trigger bodies and the
+ * `begin ... end` bodies of MySQL routines, triggers and events do not end a
+ * statement. Statements holding nothing but comments are dropped. MySQL's
+ * client-side `DELIMITER` command is not supported, nor needed.
+ */
+export function splitScript(
+	script: string,
+	family: ScriptFamily = "postgres",
+): ScriptStatement[] {
+	const statements: ScriptStatement[] = [];
+	let start = -1;
+	let words: string[] = [];
+	// Open blocks of a trigger or routine body
+	let depth = 0;
+	// The last word or punctuation of the statement, lowercased
+	let previous = "";
+
+	let line = 1;
+	let lineCountedTo = 0;
+	const lineAt = (index: number) => {
+		for (; lineCountedTo < index; lineCountedTo++) {
+			if (script[lineCountedTo] === "\n") {
+				line++;
+			}
+		}
+		return line;
+	};
+
+	const endStatement = (end: number) => {
+		if (start >= 0) {
+			statements.push({
+				sql: script.slice(start, end).trim(),
+				line: lineAt(start),
+			});
+		}
+		start = -1;
+		words = [];
+		depth = 0;
+		previous = "";
+	};
+
+	let i = 0;
+
+	while (i < script.length) {
+		const char = script[i] as string;
+		const next = script[i + 1];
+
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+
+		if (
+			(char === "-" && next === "-") ||
+			(char === "#" && family === "mysql")
+		) {
+			const newline = script.indexOf("\n", i);
+			i = newline < 0 ? script.length : newline;
+			continue;
+		}
+
+		if (char === "/" && next === "*") {
+			i = skipBlockComment(script, i, family);
+			continue;
+		}
+
+		if (char === ";" && depth === 0) {
+			endStatement(i);
+			i++;
+			continue;
+		}
+
+		if (start < 0) {
+			start = i;
+		}
+
+		if (char === "'" || char === '"' || char === "`") {
+			i = skipQuoted(script, i, family);
+			previous = char;
+			continue;
+		}
+
+		if (char === "$" && family === "postgres") {
+			DOLLAR_QUOTE_PATTERN.lastIndex = i;
+			const tag = DOLLAR_QUOTE_PATTERN.exec(script)?.[0];
+
+			if (tag) {
+				const end = script.indexOf(tag, i + tag.length);
+				i = end < 0 ? script.length : end + tag.length;
+				continue;
+			}
+		}
+
+		WORD_PATTERN.lastIndex = i;
+		const word = WORD_PATTERN.exec(script)?.[0];
+
+		if (!word) {
+			previous = char;
+			i++;
+			continue;
+		}
+
+		const keyword = word.toLowerCase();
+
+		if (words.length < MAX_LEADING_WORDS) {
+			words.push(keyword);
+		}
+
+		if (BODY_OBJECTS[family].has(getCreatedObject(words) ?? "")) {
+			depth += getDepthChange(family, keyword, previous, depth);
+		}
+
+		previous = keyword;
+		i += word.length;
+	}
+
+	endStatement(script.length);
+
+	return statements;
+}
+
+/**
+ * Runs a script of semicolon-separated statements, such as a schema
+ * bootstrap file, one statement after the other on a single connection
+ *
+ * Statements are sent through the simple query protocol, so they cannot
+ * take parameters but may be anything the database accepts, including
+ * statements PostgreSQL refuses to prepare. They always run on the primary,
+ * even those that look read-only.
+ *
+ * @returns The result of every statement, in order
+ * @throws {ScriptError} If a statement fails, naming it and its line
+ *
+ * @example
+ * ```ts
+ * await executeScript(db, await Bun.file('schema.sql').text(), {
+ *   transaction: true,
+ * })
+ * ```
+ */
+export async function executeScript<DB>(
+	db: Kysely<DB> | Transaction<DB>,
+	script: string,
+	options: ExecuteScriptOptions = {},
+): Promise<QueryResult<unknown>[]> {
+	const statements = splitScript(
+		script,
+		getAdapterFamily(db as Kysely<unknown>),
+	);
+
+	const run = async (executor: Kysely<DB>) => {
+		const results: QueryResult<unknown>[] = [];
+
+		for (const [index, statement] of statements.entries()) {
+			try {
+				results.push(
+					await withQueryOptions({ primary: true, prepare: false }, () =>
+						executor.executeQuery(CompiledQuery.raw(statement.sql)),
+					),
+				);
+			} catch (error) {
+				throw new ScriptError(index + 1, statement, error);
+			}
+		}
+
+		return results;
+	};
+
+	if (db.isTransaction) {
+		return run(db);
+	}
+
+	return options.transaction
+		? db.transaction().execute(run)
+		: db.connection().execute(run);
+}
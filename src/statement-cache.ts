@@ -0,0 +1,50 @@
+/**
+ * A bounded LRU of the statement texts prepared on one physical connection
+ *
+ * Bun prepares statements internally and exposes neither their names nor a
+ * way to deallocate them, so the cache mirrors what a connection has prepared
+ * rather than holding the statements themselves. Hits and misses show how
+ * well queries are reused across a connection's lifetime.
+ */
+export class StatementCache {
+	readonly #capacity: number;
+
+	// Insertion order doubles as recency order, oldest first
+	readonly #statements = new Set<string>();
+
+	constructor(capacity: number) {
+		this.#capacity = capacity;
+	}
+
+	get size(): number {
+		return this.#statements.size;
+	}
+
+	/**
+	 * Records that `sql` is about to be prepared, returning whether it was
+	 * cached already. The least recently used statement is evicted when the
+	 * cache is full.
+	 */
+	use(sql: string): boolean {
+		if (this.#statements.delete(sql)) {
+			this.#statements.add(sql);
+			return true;
+		}
+
+		this.#statements.add(sql);
+
+		if (this.#statements.size > this.#capacity) {
+			const oldest = this.#statements.values().next().value;
+
+			if (oldest !== undefined) {
+				this.#statements.delete(oldest);
+			}
+		}
+
+		return false;
+	}
+
+	has(sql: string): boolean {
+		return this.#statements.has(sql);
+	}
+}
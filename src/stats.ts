@@ -0,0 +1,306 @@
+/**
+ * Connection wait time percentiles in milliseconds, over the most recent
+ * acquisitions
+ */
+export interface BunSQLWaitTimeStats {
+	/**
+	 * Number of acquisitions the percentiles are computed from
+	 */
+	samples: number;
+	p50: number;
+	p90: number;
+	p99: number;
+	max: number;
+	/**
+	 * Total wait time over every acquisition, not just the recent ones
+	 */
+	sum: number;
+}
+
+/**
+ * A snapshot of the driver's counters, see `BunSQLDialect.getStats()`
+ *
+ * Gauges describe the current state, counters only ever grow until the driver
+ * is destroyed.
+ */
+export interface BunSQLStats {
+	/**
+	 * Gauge: connections currently handed out to Kysely
+	 */
+	reservedConnections: number;
+	/**
+	 * Highest `reservedConnections` seen so far
+	 */
+	peakReservedConnections: number;
+	/**
+	 * Time spent waiting for Bun's pool (or the SQLite lock) to hand out a
+	 * connection
+	 */
+	connectionWaitTimeMs: BunSQLWaitTimeStats;
+	/**
+	 * Counter: connections acquired
+	 */
+	connectionsAcquired: number;
+	/**
+	 * Counter: statements executed, failed ones included
+	 */
+	queriesExecuted: number;
+	/**
+	 * Counter: statements that failed
+	 */
+	queryFailures: number;
+	/**
+	 * Gauge: transactions begun and not yet committed or rolled back
+	 */
+	openTransactions: number;
+	/**
+	 * Counter: transactions committed
+	 */
+	transactionsCommitted: number;
+	/**
+	 * Counter: transactions rolled back
+	 */
+	transactionsRolledBack: number;
+	/**
+	 * Counter: prepared statements whose text was already prepared on their
+	 * connection, see `BunSQLOptions.statementCacheSize`
+	 */
+	preparedStatementCacheHits: number;
+	/**
+	 * Counter: prepared statements seen for the first time on their connection,
+	 * or again after being evicted
+	 */
+	preparedStatementCacheMisses: number;
+}
+
+// Wait time percentiles are computed over this many recent acquisitions
+const WAIT_TIME_SAMPLES = 1024;
+
+/**
+ * Collects the counters behind BunSQLStats. Owned by BunSQLDriver and shared
+ * with its connections.
+ */
+export class StatsCollector {
+	#reservedConnections = 0;
+	#peakReservedConnections = 0;
+	#connectionsAcquired = 0;
+	#queriesExecuted = 0;
+	#queryFailures = 0;
+	#openTransactions = 0;
+	#transactionsCommitted = 0;
+	#transactionsRolledBack = 0;
+	#preparedStatementCacheHits = 0;
+	#preparedStatementCacheMisses = 0;
+	#totalWaitTimeMs = 0;
+
+	// Ring buffer of the latest wait times
+	readonly #waitTimes = new Float64Array(WAIT_TIME_SAMPLES);
+
+	connectionReserved(waitTimeMs: number): void {
+		this.#waitTimes[this.#connectionsAcquired % WAIT_TIME_SAMPLES] = waitTimeMs;
+		this.#totalWaitTimeMs += waitTimeMs;
+		this.#connectionsAcquired++;
+		this.#reservedConnections++;
+		this.#peakReservedConnections = Math.max(
+			this.#peakReservedConnections,
+			this.#reservedConnections,
+		);
+	}
+
+	connectionReleased(): void {
+		this.#reservedConnections--;
+	}
+
+	queryExecuted(failed: boolean): void {
+		this.#queriesExecuted++;
+
+		if (failed) {
+			this.#queryFailures++;
+		}
+	}
+
+	transactionStarted(): void {
+		this.#openTransactions++;
+	}
+
+	transactionEnded(outcome: "commit" | "rollback"): void {
+		this.#openTransactions--;
+
+		if (outcome === "commit") {
+			this.#transactionsCommitted++;
+		} else {
+			this.#transactionsRolledBack++;
+		}
+	}
+
+	statementPrepared(cached: boolean): void {
+		if (cached) {
+			this.#preparedStatementCacheHits++;
+		} else {
+			this.#preparedStatementCacheMisses++;
+		}
+	}
+
+	/**
+	 * Forgets a transaction whose connection was released while still open,
+	 * e.g. after a failed rollback
+	 */
+	transactionAbandoned(): void {
+		this.#openTransactions--;
+	}
+
+	/**
+	 * Zeroes the gauges once `destroy()` has released every connection
+	 */
+	driverDestroyed(): void {
+		this.#reservedConnections = 0;
+		this.#openTransactions = 0;
+	}
+
+	snapshot(): BunSQLStats {
+		return {
+			reservedConnections: this.#reservedConnections,
+			peakReservedConnections: this.#peakReservedConnections,
+			connectionWaitTimeMs: this.#waitTimeStats(),
+			connectionsAcquired: this.#connectionsAcquired,
+			queriesExecuted: this.#queriesExecuted,
+			queryFailures: this.#queryFailures,
+			openTransactions: this.#openTransactions,
+			transactionsCommitted: this.#transactionsCommitted,
+			transactionsRolledBack: this.#transactionsRolledBack,
+			preparedStatementCacheHits: this.#preparedStatementCacheHits,
+			preparedStatementCacheMisses: this.#preparedStatementCacheMisses,
+		};
+	}
+
+	#waitTimeStats(): BunSQLWaitTimeStats {
+		const samples = Math.min(this.#connectionsAcquired, WAIT_TIME_SAMPLES);
+		const sorted = this.#waitTimes.slice(0, samples).sort();
+		const percentile = (p: number) =>
+			samples === 0 ? 0 : (sorted[Math.ceil(p * samples) - 1] ?? 0);
+
+		return {
+			samples,
+			p50: percentile(0.5),
+			p90: percentile(0.9),
+			p99: percentile(0.99),
+			max: samples === 0 ? 0 : (sorted[samples - 1] ?? 0),
+			sum: this.#totalWaitTimeMs,
+		};
+	}
+}
+
+/**
+ * An empty snapshot, for dialects whose driver has not been created yet
+ */
+export function emptyStats(): BunSQLStats {
+	return new StatsCollector().snapshot();
+}
+
+/**
+ * Renders stats in the Prometheus text exposition format
+ *
+ * @example
+ * ```ts
+ * Bun.serve({
+ *   routes: {
+ *     '/metrics': () => new Response(formatPrometheusStats(dialect.getStats())),
+ *   },
+ * })
+ * ```
+ */
+export function formatPrometheusStats(
+	stats: BunSQLStats,
+	prefix = "kysely_bun_sql",
+): string {
+	const lines: string[] = [];
+
+	const metric = (
+		name: string,
+		type: "gauge" | "counter",
+		help: string,
+		value: number,
+	) => {
+		const fullName = `${prefix}_${name}`;
+		lines.push(
+			`# HELP ${fullName} ${help}`,
+			`# TYPE ${fullName} ${type}`,
+			`${fullName} ${value}`,
+		);
+	};
+
+	metric(
+		"reserved_connections",
+		"gauge",
+		"Connections currently reserved by Kysely",
+		stats.reservedConnections,
+	);
+	metric(
+		"peak_reserved_connections",
+		"gauge",
+		"Highest number of connections reserved at once",
+		stats.peakReservedConnections,
+	);
+	metric(
+		"connections_acquired_total",
+		"counter",
+		"Connections acquired",
+		stats.connectionsAcquired,
+	);
+	metric(
+		"queries_total",
+		"counter",
+		"Statements executed",
+		stats.queriesExecuted,
+	);
+	metric(
+		"query_failures_total",
+		"counter",
+		"Statements that failed",
+		stats.queryFailures,
+	);
+	metric(
+		"open_transactions",
+		"gauge",
+		"Transactions currently open",
+		stats.openTransactions,
+	);
+	metric(
+		"transactions_committed_total",
+		"counter",
+		"Transactions committed",
+		stats.transactionsCommitted,
+	);
+	metric(
+		"transactions_rolled_back_total",
+		"counter",
+		"Transactions rolled back",
+		stats.transactionsRolledBack,
+	);
+	metric(
+		"prepared_statement_cache_hits_total",
+		"counter",
+		"Prepared statements already prepared on their connection",
+		stats.preparedStatementCacheHits,
+	);
+	metric(
+		"prepared_statement_cache_misses_total",
+		"counter",
+		"Prepared statements new to their connection",
+		stats.preparedStatementCacheMisses,
+	);
+
+	const waitTime = `${prefix}_connection_wait_seconds`;
+	const { connectionWaitTimeMs: wait } = stats;
+	lines.push(
+		`# HELP ${waitTime} Time spent waiting for a connection, over recent acquisitions`,
+		`# TYPE ${waitTime} summary`,
+		`${waitTime}{quantile="0.5"} ${wait.p50 / 1000}`,
+		`${waitTime}{quantile="0.9"} ${wait.p90 / 1000}`,
+		`${waitTime}{quantile="0.99"} ${wait.p99 / 1000}`,
+		`${waitTime}_sum ${wait.sum / 1000}`,
+		`${waitTime}_count ${stats.connectionsAcquired}`,
+	);
+
+	return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,139 @@
+import type { SQL } from "bun";
+import type { BunSQLAdapterName } from "./adapter";
+
+/**
+ * Attribute values a span accepts, as in OpenTelemetry
+ */
+export type BunSQLSpanAttributeValue =
+	| string
+	| number
+	| boolean
+	| readonly string[]
+	| readonly number[]
+	| readonly boolean[];
+
+export type BunSQLSpanAttributes = Record<
+	string,
+	BunSQLSpanAttributeValue | undefined
+>;
+
+/**
+ * The subset of OpenTelemetry's SpanOptions the driver uses
+ */
+export interface BunSQLSpanOptions {
+	kind?: number;
+	attributes?: BunSQLSpanAttributes;
+}
+
+/**
+ * The subset of OpenTelemetry's Span the driver uses
+ */
+export interface BunSQLSpan {
+	setAttribute(key: string, value: BunSQLSpanAttributeValue): unknown;
+	setAttributes(attributes: BunSQLSpanAttributes): unknown;
+	recordException(exception: Error): void;
+	setStatus(status: { code: number; message?: string }): unknown;
+	end(): void;
+}
+
+/**
+ * A tracer the driver reports spans to. Shaped after OpenTelemetry's Tracer,
+ * so `trace.getTracer('kysely-bun-sql')` from `@opentelemetry/api` can be
+ * passed in directly, without this package depending on it.
+ */
+export interface BunSQLTracer {
+	startSpan(name: string, options?: BunSQLSpanOptions): BunSQLSpan;
+}
+
+// Values of OpenTelemetry's SpanKind.CLIENT and SpanStatusCode.ERROR
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+const DB_SYSTEMS: Record<BunSQLAdapterName, string> = {
+	postgres: "postgresql",
+	mysql: "mysql",
+	mariadb: "mariadb",
+	sqlite: "sqlite",
+};
+
+/**
+ * Semantic convention attributes describing the database behind `sql`
+ */
+export function getDatabaseAttributes(
+	adapter: BunSQLAdapterName,
+	sql: SQL,
+): BunSQLSpanAttributes {
+	const { hostname, port, database, filename } = sql.options;
+
+	if (adapter === "sqlite") {
+		return {
+			"db.system": DB_SYSTEMS.sqlite,
+			"db.name": filename === undefined ? undefined : String(filename),
+		};
+	}
+
+	return {
+		"db.system": DB_SYSTEMS[adapter],
+		"db.name": database,
+		"server.address": hostname,
+		"server.port": port === undefined ? undefined : Number(port),
+	};
+}
+
+/**
+ * The operation of a statement (`SELECT`, `INSERT`, `BEGIN`, ...), taken
+ * from its first keyword
+ */
+export function getOperationName(sql: string): string | undefined {
+	return /^\s*([a-z]+)/i.exec(sql)?.[1]?.toUpperCase();
+}
+
+/**
+ * Starts a client span, or does nothing without a tracer
+ */
+export function startSpan(
+	tracer: BunSQLTracer | undefined,
+	name: string,
+	attributes: BunSQLSpanAttributes,
+): BunSQLSpan | undefined {
+	return tracer?.startSpan(name, { kind: SPAN_KIND_CLIENT, attributes });
+}
+
+/**
+ * Ends a span, recording `error` on it first when given
+ */
+export function endSpan(span: BunSQLSpan | undefined, error?: unknown): void {
+	if (!span) {
+		return;
+	}
+
+	if (error !== undefined) {
+		const exception = error instanceof Error ? error : new Error(String(error));
+
+		span.recordException(exception);
+		span.setStatus({ code: SPAN_STATUS_ERROR, message: exception.message });
+	}
+
+	span.end();
+}
+
+/**
+ * Runs `callback` inside a span that records its error, if any
+ */
+export async function traceOperation<T>(
+	tracer: BunSQLTracer | undefined,
+	name: string,
+	attributes: BunSQLSpanAttributes,
+	callback: () => Promise<T>,
+): Promise<T> {
+	const span = startSpan(tracer, name, attributes);
+
+	try {
+		const result = await callback();
+		endSpan(span);
+		return result;
+	} catch (error) {
+		endSpan(span, error);
+		throw error;
+	}
+}
@@ -0,0 +1,125 @@
+import type { TransactionSettings } from "kysely";
+import {
+	type BunSQLErrorAdapter,
+	UnsupportedTransactionSettingsError,
+} from "./errors";
+
+/**
+ * SQLite locking mode used by `begin`
+ *
+ * - `deferred` takes locks lazily on first read or write (SQLite's default)
+ * - `immediate` takes the write lock up front
+ * - `exclusive` also blocks readers outside WAL mode
+ */
+export type SQLiteTransactionMode = "deferred" | "immediate" | "exclusive";
+
+/**
+ * Kysely's TransactionSettings extended with adapter-specific options
+ */
+export interface BunSQLTransactionSettings extends TransactionSettings {
+	/**
+	 * Locking mode of the SQLite `begin` statement. Only valid for SQLite.
+	 * Kysely's transaction builder only passes `isolationLevel` and
+	 * `accessMode`, so set it with `withQueryOptions` around the transaction.
+	 */
+	readonly sqliteTransactionMode?: SQLiteTransactionMode;
+}
+
+const SQLITE_TRANSACTION_MODES: readonly SQLiteTransactionMode[] = [
+	"deferred",
+	"immediate",
+	"exclusive",
+];
+
+/**
+ * Validates the settings for the adapter and returns the statements that open
+ * the transaction, in order
+ *
+ * - PostgreSQL: `start transaction isolation level ..., read only`
+ * - MySQL/MariaDB: `set transaction isolation level ...` followed by
+ *   `start transaction read only`, as MySQL only accepts the isolation level
+ *   before the transaction starts
+ * - SQLite: `begin deferred|immediate|exclusive`. SQLite transactions are
+ *   always serializable and writable, so other settings are rejected.
+ *
+ * @throws {UnsupportedTransactionSettingsError} If the adapter cannot honor a setting
+ */
+export function compileBeginTransaction(
+	adapter: BunSQLErrorAdapter,
+	settings: BunSQLTransactionSettings = {},
+): string[] {
+	const { isolationLevel, accessMode, sqliteTransactionMode } = settings;
+
+	if (isolationLevel === "snapshot") {
+		throw new UnsupportedTransactionSettingsError(
+			adapter,
+			"isolationLevel",
+			isolationLevel,
+		);
+	}
+
+	if (adapter === "sqlite") {
+		if (isolationLevel && isolationLevel !== "serializable") {
+			throw new UnsupportedTransactionSettingsError(
+				adapter,
+				"isolationLevel",
+				isolationLevel,
+			);
+		}
+
+		if (accessMode === "read only") {
+			throw new UnsupportedTransactionSettingsError(
+				adapter,
+				"accessMode",
+				accessMode,
+			);
+		}
+
+		if (
+			sqliteTransactionMode &&
+			!SQLITE_TRANSACTION_MODES.includes(sqliteTransactionMode)
+		) {
+			throw new UnsupportedTransactionSettingsError(
+				adapter,
+				"sqliteTransactionMode",
+				sqliteTransactionMode,
+			);
+		}
+
+		return [sqliteTransactionMode ? `begin ${sqliteTransactionMode}` : "begin"];
+	}
+
+	if (sqliteTransactionMode) {
+		throw new UnsupportedTransactionSettingsError(
+			adapter,
+			"sqliteTransactionMode",
+			sqliteTransactionMode,
+		);
+	}
+
+	if (adapter === "mysql" || adapter === "mariadb") {
+		const statements: string[] = [];
+
+		if (isolationLevel) {
+			statements.push(`set transaction isolation level ${isolationLevel}`);
+		}
+
+		statements.push(
+			accessMode ? `start transaction ${accessMode}` : "start transaction",
+		);
+
+		return statements;
+	}
+
+	const modes: string[] = [];
+
+	if (isolationLevel) {
+		modes.push(`isolation level ${isolationLevel}`);
+	}
+
+	if (accessMode) {
+		modes.push(accessMode);
+	}
+
+	return [modes.length > 0 ? `start transaction ${modes.join(", ")}` : "begin"];
+}
@@ -0,0 +1,234 @@
+import type { BunSQLAdapterName } from "./adapter";
+
+/**
+ * The kinds of values `BunSQLTypeMapping` normalizes
+ */
+export type BunSQLValueKind = "bigint" | "decimal" | "timestamp" | "json";
+
+/**
+ * How values of each kind are returned in rows. Kinds left out are returned
+ * the way Bun decodes them.
+ *
+ * Bun reports no column types, so a value is only converted where its kind
+ * is certain: either Bun decoded it into a type only that kind produces, or
+ * its column is listed in `columns`.
+ *
+ * - `bigint` applies to `bigint` values, which Bun only returns for integers
+ *   outside the 32-bit range (PostgreSQL and MySQL instances created by the
+ *   dialect get Bun's `bigint: true`). Smaller ones arrive as numbers, so
+ *   every integer of a column is only converted if the column is listed.
+ * - `decimal` only applies to listed columns: PostgreSQL and MySQL return
+ *   `numeric`/`decimal` as strings, which look like any other text.
+ * - `timestamp` applies to `Date` values, and to the text of listed columns
+ *   on SQLite (which has no timestamp type), read as UTC without a zone.
+ * - `json` applies to objects and arrays Bun decoded from JSON columns, and
+ *   to the text of listed columns that holds valid JSON. PostgreSQL arrays are native arrays, so
+ *   only objects, or arrays of listed columns, are serialized back there.
+ */
+export interface BunSQLTypeMapping {
+	bigint?: "bigint" | "number" | "string";
+	decimal?: "string" | "number";
+	timestamp?: "date" | "string";
+	json?: "parsed" | "raw";
+
+	/**
+	 * The kind of the values of result columns, by name or alias, for those
+	 * Bun cannot tell apart from plain numbers or text
+	 *
+	 * @example
+	 * ```ts
+	 * { bigint: 'bigint', columns: { id: 'bigint', price: 'decimal' } }
+	 * ```
+	 */
+	columns?: Record<string, BunSQLValueKind>;
+}
+
+/**
+ * Converts the value of one column, knowing whether the column was listed
+ * as holding this kind
+ */
+type KindMapper = (value: unknown, listed: boolean) => unknown;
+
+type ValueMapper = (value: unknown, column: string) => unknown;
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
+
+function toBigint(value: unknown, listed: boolean): bigint | undefined {
+	if (typeof value === "bigint") {
+		return value;
+	}
+	if (!listed) {
+		return undefined;
+	}
+	if (typeof value === "number" && Number.isInteger(value)) {
+		return BigInt(value);
+	}
+	// Instances created without `bigint: true` return large integers as text
+	if (typeof value === "string" && INTEGER_PATTERN.test(value)) {
+		return BigInt(value);
+	}
+
+	return undefined;
+}
+
+function mapBigint(mode: BunSQLTypeMapping["bigint"]): KindMapper {
+	return (value, listed) => {
+		const integer = toBigint(value, listed);
+
+		if (integer === undefined) {
+			return value;
+		}
+
+		switch (mode) {
+			case "number":
+				return Number(integer);
+			case "string":
+				return integer.toString();
+			default:
+				return integer;
+		}
+	};
+}
+
+function mapDecimal(mode: BunSQLTypeMapping["decimal"]): KindMapper {
+	return (value, listed) => {
+		if (!listed) {
+			return value;
+		}
+		if (mode === "number" && typeof value === "string") {
+			return Number(value);
+		}
+		if (mode === "string" && typeof value === "number") {
+			return String(value);
+		}
+
+		return value;
+	};
+}
+
+function mapTimestamp(
+	mode: BunSQLTypeMapping["timestamp"],
+	adapter: BunSQLAdapterName,
+): KindMapper {
+	return (value, listed) => {
+		if (value instanceof Date) {
+			return mode === "string" ? value.toISOString() : value;
+		}
+
+		if (listed && adapter === "sqlite" && typeof value === "string") {
+			// SQLite's own timestamps carry no zone and are UTC
+			const text = value.replace(" ", "T");
+			const date = new Date(
+				/(Z|[+-]\d{2}:?\d{2})$/.test(text) ? text : `${text}Z`,
+			);
+
+			if (Number.isNaN(date.getTime())) {
+				return value;
+			}
+
+			return mode === "string" ? date.toISOString() : date;
+		}
+
+		return value;
+	};
+}
+
+function mapJson(
+	mode: BunSQLTypeMapping["json"],
+	adapter: BunSQLAdapterName,
+): KindMapper {
+	return (value, listed) => {
+		if (mode === "raw") {
+			return isPlainObject(value) ||
+				(Array.isArray(value) && (listed || adapter !== "postgres"))
+				? JSON.stringify(value)
+				: value;
+		}
+
+		if (!listed || typeof value !== "string") {
+			return value;
+		}
+
+		// Listed names apply to every table, so other text columns may match
+		try {
+			return JSON.parse(value);
+		} catch {
+			return value;
+		}
+	};
+}
+
+/**
+ * Builds the function normalizing the value of a result column, or
+ * `undefined` if the mapping leaves every value as is
+ */
+export function createValueMapper(
+	adapter: BunSQLAdapterName,
+	mapping: BunSQLTypeMapping | undefined,
+): ValueMapper | undefined {
+	if (!mapping) {
+		return undefined;
+	}
+
+	const mappers: [BunSQLValueKind, KindMapper][] = [];
+
+	if (mapping.bigint) {
+		mappers.push(["bigint", mapBigint(mapping.bigint)]);
+	}
+	if (mapping.decimal) {
+		mappers.push(["decimal", mapDecimal(mapping.decimal)]);
+	}
+	if (mapping.timestamp) {
+		mappers.push(["timestamp", mapTimestamp(mapping.timestamp, adapter)]);
+	}
+	if (mapping.json) {
+		mappers.push(["json", mapJson(mapping.json, adapter)]);
+	}
+
+	if (mappers.length === 0) {
+		return undefined;
+	}
+
+	const columns = new Map(Object.entries(mapping.columns ?? {}));
+
+	return (value, column) => {
+		if (value === null || value === undefined) {
+			return value;
+		}
+
+		const kind = columns.get(column);
+
+		return mappers.reduce<unknown>(
+			(mapped, [mapperKind, mapper]) => mapper(mapped, kind === mapperKind),
+			value,
+		);
+	};
+}
+
+/**
+ * Applies `mapValue` to every column of every row, in place
+ */
+export function mapRows<R>(rows: R[], mapValue: ValueMapper): R[] {
+	for (const row of rows) {
+		if (typeof row !== "object" || row === null) {
+			continue;
+		}
+
+		const record = row as Record<string, unknown>;
+
+		for (const key of Object.keys(record)) {
+			record[key] = mapValue(record[key], key);
+		}
+	}
+
+	return rows;
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "bun:test";
+import { SQL } from "bun";
+import {
+	Kysely,
+	MysqlQueryCompiler,
+	PostgresQueryCompiler,
+	SqliteAdapter,
+	sql,
+} from "kysely";
+import {
+	AdapterMismatchError,
+	BunSQLDialect,
+	type BunSQLOptions,
+	UnsupportedAdapterError,
+} from "../src";
+import { assertAdapterMatches, resolveAdapter } from "../src/adapter";
+
+describe("resolveAdapter", () => {
+	it("should read the adapter of a SQL instance", () => {
+		expect(resolveAdapter({ database: new SQL(":memory:") })).toBe("sqlite");
+	});
+
+	it("should detect the adapter of connection strings", () => {
+		expect(resolveAdapter({ database: ":memory:" })).toBe("sqlite");
+		expect(resolveAdapter({ database: "sqlite://./app.db" })).toBe("sqlite");
+		expect(resolveAdapter({ database: "file:///tmp/app.db" })).toBe("sqlite");
+		expect(resolveAdapter({ database: "mysql://u:p@localhost/db" })).toBe(
+			"mysql",
+		);
+		expect(resolveAdapter({ database: "mariadb://u:p@localhost/db" })).toBe(
+			"mariadb",
+		);
+		expect(
+			resolveAdapter({ database: new URL("postgres://u:p@localhost/db") }),
+		).toBe("postgres");
+	});
+
+	it("should detect the adapter of options objects", () => {
+		expect(resolveAdapter({ database: { filename: ":memory:" } })).toBe(
+			"sqlite",
+		);
+		expect(
+			resolveAdapter({ database: { adapter: "mysql", hostname: "localhost" } }),
+		).toBe("mysql");
+		expect(resolveAdapter({ database: { hostname: "localhost" } })).toBe(
+			"postgres",
+		);
+	});
+
+	it("should require an adapter for factories", () => {
+		const factory = () => new SQL(":memory:");
+
+		expect(() => resolveAdapter({ database: factory })).toThrow(
+			"BunSQLOptions.adapter is required when database is a factory",
+		);
+		expect(resolveAdapter({ database: factory, adapter: "sqlite" })).toBe(
+			"sqlite",
+		);
+	});
+
+	it("should let an explicit adapter override detection", () => {
+		expect(
+			resolveAdapter({
+				database: "postgres://u:p@localhost/db",
+				adapter: "mysql",
+			}),
+		).toBe("mysql");
+	});
+
+	it("should reject unsupported adapters", () => {
+		const options = {
+			database: "mssql://u:p@localhost/db",
+			adapter: "mssql",
+		} as unknown as BunSQLOptions;
+
+		expect(() => resolveAdapter(options)).toThrow(UnsupportedAdapterError);
+		expect(() => resolveAdapter(options)).toThrow(
+			'Unsupported Bun SQL adapter "mssql", expected one of: postgres, mysql, mariadb, sqlite',
+		);
+	});
+});
+
+describe("assertAdapterMatches", () => {
+	it("should accept the instance's own adapter", () => {
+		expect(() =>
+			assertAdapterMatches("sqlite", new SQL(":memory:")),
+		).not.toThrow();
+	});
+
+	it("should treat MySQL and MariaDB as one family", () => {
+		const mariadb = new SQL({ adapter: "mariadb", hostname: "localhost" });
+
+		expect(() => assertAdapterMatches("mysql", mariadb)).not.toThrow();
+	});
+
+	it("should reject an instance of another adapter", () => {
+		expect(() => assertAdapterMatches("postgres", new SQL(":memory:"))).toThrow(
+			new AdapterMismatchError("postgres", "sqlite"),
+		);
+	});
+});
+
+describe("BunSQLDialect adapter selection", () => {
+	it("should build Kysely components for the adapter", () => {
+		const sqlite = new BunSQLDialect({ database: ":memory:" });
+		const mariadb = new BunSQLDialect({
+			database: "mariadb://u:p@localhost/db",
+		});
+		const postgres = new BunSQLDialect({
+			database: "postgres://u:p@localhost/db",
+		});
+
+		expect(sqlite.createAdapter()).toBeInstanceOf(SqliteAdapter);
+		expect(mariadb.createQueryCompiler()).toBeInstanceOf(MysqlQueryCompiler);
+		expect(postgres.createQueryCompiler()).toBeInstanceOf(
+			PostgresQueryCompiler,
+		);
+	});
+
+	it("should fail at construction for unsupported adapters", () => {
+		expect(
+			() =>
+				new BunSQLDialect({
+					database: new SQL(":memory:"),
+					adapter: "oracle",
+				} as unknown as BunSQLOptions),
+		).toThrow(UnsupportedAdapterError);
+	});
+
+	it("should fail at startup when the adapter does not match the instance", async () => {
+		const db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({
+				database: new SQL(":memory:"),
+				adapter: "postgres",
+			}),
+		});
+
+		const error = await sql`select 1`.execute(db).catch((e) => e);
+
+		expect(error).toBeInstanceOf(AdapterMismatchError);
+		expect(error.message).toBe(
+			'BunSQLOptions.adapter is "postgres" but the SQL instance uses the "sqlite" adapter',
+		);
+		await db.destroy();
+	});
+
+	it("should check replicas against the adapter", async () => {
+		const db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({
+				database: ":memory:",
+				replicas: [new SQL("postgres://u:p@localhost/db")],
+			}),
+		});
+
+		const error = await sql`select 1`.execute(db).catch((e) => e);
+
+		expect(error).toBeInstanceOf(AdapterMismatchError);
+		await db.destroy();
+	});
+
+	it("should close an instance it created when the check fails", async () => {
+		let created: SQL | undefined;
+		const db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({
+				adapter: "postgres",
+				database: () => {
+					created = new SQL(":memory:");
+					return created;
+				},
+			}),
+		});
+
+		await sql`select 1`.execute(db).catch(() => {});
+
+		const error = await created?.unsafe("select 1").catch((e) => e);
+		expect(error).toBeInstanceOf(Error);
+		await db.destroy();
+	});
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Kysely, sql } from "kysely";
+import { BunSQLDialect, bulkInsert } from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL } from "./utils";
+
+interface Database {
+	bulk_items: {
+		id: number;
+		name: string;
+		quantity: number;
+	};
+}
+
+function createItems(count: number, name = "item") {
+	return Array.from({ length: count }, (_, index) => ({
+		id: index + 1,
+		name: `${name} ${index + 1}`,
+		quantity: index,
+	}));
+}
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} bulkInsert`, () => {
+		let db: Kysely<Database>;
+
+		beforeEach(async () => {
+			db = new Kysely<Database>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+				}),
+			});
+			await db.schema.dropTable("bulk_items").ifExists().execute();
+			await db.schema
+				.createTable("bulk_items")
+				.addColumn("id", "integer", (col) => col.primaryKey())
+				.addColumn("name", "varchar(50)", (col) => col.notNull())
+				.addColumn("quantity", "integer", (col) => col.notNull())
+				.execute();
+		});
+
+		afterEach(async () => {
+			await db.schema.dropTable("bulk_items").ifExists().execute();
+			await db.destroy();
+		});
+
+		async function countItems(): Promise<number> {
+			const { count } = await db
+				.selectFrom("bulk_items")
+				.select((eb) => eb.fn.countAll<number | bigint>().as("count"))
+				.executeTakeFirstOrThrow();
+
+			return Number(count);
+		}
+
+		it("should insert more rows than one statement can hold", async () => {
+			// 30000 rows of 3 columns exceed every adapter's limit
+			const result = await bulkInsert(db, "bulk_items", createItems(30_000));
+
+			expect(result.chunks).toBe(adapter === "sqlite" ? 3 : 2);
+			expect(result.numInsertedOrUpdatedRows).toBe(30_000n);
+			expect(await countItems()).toBe(30_000);
+		});
+
+		it("should split by the given parameter limit", async () => {
+			const result = await bulkInsert(db, "bulk_items", createItems(10), {
+				maxParameters: 9,
+			});
+
+			expect(result.chunks).toBe(4);
+			expect(await countItems()).toBe(10);
+
+			if (adapter !== "postgres") {
+				expect(result.insertIds).toHaveLength(4);
+			}
+		});
+
+		it("should roll back every chunk when one fails", async () => {
+			const items = createItems(10);
+			items[8] = { ...items[8], id: 1 } as (typeof items)[number];
+
+			const error = await bulkInsert(db, "bulk_items", items, {
+				maxParameters: 9,
+			}).catch((e) => e);
+
+			expect(error).toBeInstanceOf(Error);
+			expect(await countItems()).toBe(0);
+		});
+
+		it("should upsert", async () => {
+			await bulkInsert(db, "bulk_items", createItems(5));
+
+			const result = await bulkInsert(
+				db,
+				"bulk_items",
+				createItems(8, "updated"),
+				{
+					maxParameters: 9,
+					modify: (insert) =>
+						adapter === "mysql"
+							? insert.onDuplicateKeyUpdate({ name: sql`values(name)` })
+							: insert.onConflict((oc) =>
+									oc
+										.column("id")
+										.doUpdateSet({ name: (eb) => eb.ref("excluded.name") }),
+								),
+				},
+			);
+
+			expect(result.chunks).toBe(3);
+			expect(
+				await db
+					.selectFrom("bulk_items")
+					.select("name")
+					.orderBy("id")
+					.execute(),
+			).toEqual(createItems(8, "updated").map(({ name }) => ({ name })));
+		});
+
+		if (adapter !== "mysql") {
+			it("should combine the returned rows", async () => {
+				const result = await bulkInsert(db, "bulk_items", createItems(10), {
+					maxParameters: 9,
+					modify: (insert) => insert.returning(["id", "name"]),
+				});
+
+				expect(result.rows).toEqual(
+					createItems(10).map(({ id, name }) => ({ id, name })),
+				);
+			});
+		}
+
+		it("should join an open transaction", async () => {
+			await db
+				.transaction()
+				.execute(async (trx) => {
+					await bulkInsert(trx, "bulk_items", createItems(10), {
+						maxParameters: 9,
+					});
+					throw new Error("rollback");
+				})
+				.catch(() => {});
+
+			expect(await countItems()).toBe(0);
+		});
+	});
+}
@@ -0,0 +1,302 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SQL } from "bun";
+import { type CliIO, main } from "../src/cli";
+import {
+	ADAPTER_NAMES,
+	ADAPTERS,
+	DATABASE_URLS,
+	type TestAdapter,
+} from "./utils";
+
+interface CliRun {
+	code: number;
+	stdout: string;
+	stderr: string;
+}
+
+describe("kysely-bun-sql CLI", () => {
+	let cwd: string;
+
+	async function run(
+		argv: string[],
+		env: Record<string, string | undefined> = {},
+	): Promise<CliRun> {
+		let stdout = "";
+		let stderr = "";
+		const io: CliIO = {
+			cwd,
+			env,
+			stdout: (text) => {
+				stdout += text;
+			},
+			stderr: (text) => {
+				stderr += text;
+			},
+		};
+
+		return { code: await main(argv, io), stdout, stderr };
+	}
+
+	beforeEach(async () => {
+		cwd = await mkdtemp(join(tmpdir(), "kysely-bun-sql-cli-"));
+	});
+
+	afterEach(async () => {
+		await rm(cwd, { recursive: true, force: true });
+	});
+
+	it("should print the usage with --help", async () => {
+		const { code, stdout } = await run(["--help"]);
+
+		expect(code).toBe(0);
+		expect(stdout).toContain("Usage: kysely-bun-sql <command>");
+	});
+
+	it("should exit with 2 on usage errors", async () => {
+		expect((await run([])).code).toBe(2);
+		expect((await run(["migrate", "sideways"])).stderr).toContain(
+			'Unknown migrate command "sideways"',
+		);
+		expect((await run(["migrate", "up", "--verbose"])).code).toBe(2);
+		expect((await run(["migrate", "create", "bad name"])).code).toBe(2);
+	});
+
+	it("should create numbered migration files", async () => {
+		const first = await run(["migrate", "create", "create_users"]);
+		const second = await run(["migrate", "create", "add_email", "--json"]);
+
+		expect(first.code).toBe(0);
+		expect(first.stdout).toContain(
+			join("migrations", "0001_create_users.up.sql"),
+		);
+		expect(JSON.parse(second.stdout)).toMatchObject({
+			command: "create",
+			migrationName: "0002_add_email",
+		});
+		expect((await readdir(join(cwd, "migrations"))).sort()).toEqual([
+			"0001_create_users.down.sql",
+			"0001_create_users.up.sql",
+			"0002_add_email.down.sql",
+			"0002_add_email.up.sql",
+		]);
+	});
+
+	it("should fail without a configured database", async () => {
+		const { code, stderr } = await run(["migrate", "latest"]);
+
+		expect(code).toBe(1);
+		expect(stderr).toContain("No database configured");
+	});
+
+	it("should read the database and folder from a config file", async () => {
+		const filename = join(cwd, "app.db");
+		await Bun.write(
+			join(cwd, "kysely-bun-sql.config.ts"),
+			`export default {
+				dialect: { database: { adapter: "sqlite", filename: ${JSON.stringify(filename)} } },
+				migrations: { folder: "./db", tableName: "schema_history" },
+			};`,
+		);
+		await Bun.write(
+			join(cwd, "db", "0001_init.up.sql"),
+			"create table items (id integer);",
+		);
+
+		const { code, stdout } = await run(["migrate", "latest"]);
+
+		expect(code).toBe(0);
+		expect(stdout).toBe("applied  0001_init\n");
+
+		const database = new SQL({ adapter: "sqlite", filename });
+		const rows = await database.unsafe("select name from schema_history");
+		await database.close();
+
+		expect(rows).toEqual([{ name: "0001_init" }]);
+	});
+
+	it("should generate types and check them", async () => {
+		const filename = join(cwd, "app.db");
+		const database = new SQL({ adapter: "sqlite", filename });
+		await database.unsafe("create table items (id integer primary key)");
+
+		const env = { DATABASE_URL: `sqlite://${filename}` };
+		const outFile = join(cwd, "src", "database.ts");
+
+		expect((await run(["codegen", "--check"], env)).code).toBe(1);
+
+		const generate = await run(["codegen"], env);
+
+		expect(generate.code).toBe(0);
+		expect(generate.stdout).toBe(`wrote    ${join("src", "database.ts")}\n`);
+		expect(await Bun.file(outFile).text()).toContain(
+			"export interface Items {\n\tid: Generated<number>;\n}",
+		);
+		expect((await run(["codegen", "--check", "--json"], env)).stdout).toContain(
+			'"upToDate": true',
+		);
+
+		await database.unsafe("alter table items add column name text");
+		await database.close();
+
+		const check = await run(["codegen", "--check"], env);
+
+		expect(check.code).toBe(1);
+		expect(check.stderr).toContain(
+			`${join("src", "database.ts")} is out of date`,
+		);
+	});
+});
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} kysely-bun-sql migrate`, () => {
+		let cwd: string;
+		let env: Record<string, string>;
+
+		// An in-memory SQLite database would not outlive a single command
+		function getDatabaseUrl(adapter: TestAdapter): string {
+			return adapter === "sqlite"
+				? `sqlite://${join(cwd, "test.db")}`
+				: DATABASE_URLS[adapter];
+		}
+
+		async function run(...argv: string[]): Promise<CliRun> {
+			let stdout = "";
+			let stderr = "";
+			const code = await main([...argv, "--config", "cli.config.ts"], {
+				cwd,
+				env,
+				stdout: (text) => {
+					stdout += text;
+				},
+				stderr: (text) => {
+					stderr += text;
+				},
+			});
+
+			return { code, stdout, stderr };
+		}
+
+		beforeEach(async () => {
+			cwd = await mkdtemp(join(tmpdir(), "kysely-bun-sql-cli-"));
+			env = { DATABASE_URL: getDatabaseUrl(adapter) };
+
+			// A config without a dialect falls back to DATABASE_URL
+			await Bun.write(
+				join(cwd, "cli.config.ts"),
+				`export default {
+					migrations: { tableName: "cli_migrations", lockTableName: "cli_migrations_lock" },
+				};`,
+			);
+			await Bun.write(
+				join(cwd, "migrations", "0001_create_items.up.sql"),
+				"create table cli_items (id integer primary key);",
+			);
+			await Bun.write(
+				join(cwd, "migrations", "0001_create_items.down.sql"),
+				"drop table cli_items;",
+			);
+			await Bun.write(
+				join(cwd, "migrations", "0002_seed_items.up.sql"),
+				"insert into cli_items values (1);\ninsert into cli_items values (2);",
+			);
+			await Bun.write(
+				join(cwd, "migrations", "0002_seed_items.down.sql"),
+				"delete from cli_items;",
+			);
+		});
+
+		afterEach(async () => {
+			if (adapter !== "sqlite") {
+				const database = new SQL(DATABASE_URLS[adapter]);
+				for (const table of [
+					"cli_items",
+					"cli_migrations",
+					"cli_migrations_lock",
+				]) {
+					await database.unsafe(`drop table if exists ${table}`);
+				}
+				await database.close();
+			}
+			await rm(cwd, { recursive: true, force: true });
+		});
+
+		it("should migrate to latest and report the status", async () => {
+			const before = await run("migrate", "status", "--json");
+
+			expect(JSON.parse(before.stdout).migrations).toEqual([
+				{ name: "0001_create_items", status: "pending", executedAt: null },
+				{ name: "0002_seed_items", status: "pending", executedAt: null },
+			]);
+
+			const latest = await run("migrate", "latest");
+
+			expect(latest.code).toBe(0);
+			expect(latest.stdout).toBe(
+				"applied  0001_create_items\napplied  0002_seed_items\n",
+			);
+
+			const after = await run("migrate", "status");
+
+			expect(after.stdout).toContain("applied  0002_seed_items (");
+			expect((await run("migrate", "latest")).stdout).toBe(
+				"No pending migrations\n",
+			);
+		});
+
+		it("should step up, down and redo", async () => {
+			expect((await run("migrate", "up")).stdout).toBe(
+				"applied  0001_create_items\n",
+			);
+			expect((await run("migrate", "up")).stdout).toBe(
+				"applied  0002_seed_items\n",
+			);
+			expect((await run("migrate", "down")).stdout).toBe(
+				"reverted 0002_seed_items\n",
+			);
+
+			const redo = await run("migrate", "redo", "--json");
+
+			expect(redo.code).toBe(0);
+			expect(JSON.parse(redo.stdout)).toEqual({
+				command: "redo",
+				results: [
+					{
+						migrationName: "0001_create_items",
+						direction: "Down",
+						status: "Success",
+					},
+					{
+						migrationName: "0001_create_items",
+						direction: "Up",
+						status: "Success",
+					},
+				],
+			});
+		});
+
+		it("should report a failing migration", async () => {
+			await Bun.write(
+				join(cwd, "migrations", "0003_broken.up.sql"),
+				"insert into cli_items values (3);\ninsert into missing_table values (1);",
+			);
+
+			const text = await run("migrate", "latest");
+
+			expect(text.code).toBe(1);
+			expect(text.stdout).toContain("failed   0003_broken");
+			expect(text.stderr).toContain("Statement 2 of the script (line 2)");
+
+			const json = await run("migrate", "latest", "--json");
+
+			expect(json.code).toBe(1);
+			expect(JSON.parse(json.stdout).error).toMatchObject({
+				name: "ScriptError",
+				statement: 2,
+				line: 2,
+			});
+		});
+	});
+}
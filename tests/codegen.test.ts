@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Kysely, sql } from "kysely";
+import { BunSQLDialect, generateTypes } from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+const TABLES = [
+	"codegen_lines",
+	"codegen_items",
+	"database",
+	"codegen_order_items",
+	"CodegenOrderItems",
+	"codegen_status",
+];
+
+async function createTables(
+	db: Kysely<unknown>,
+	adapter: TestAdapter,
+): Promise<void> {
+	if (adapter === "postgres") {
+		await db.schema
+			.createType("codegen_status")
+			.asEnum(["draft", "published"])
+			.execute();
+	}
+
+	await db.schema
+		.createTable("codegen_items")
+		.addColumn("id", adapter === "postgres" ? "serial" : "integer", (col) =>
+			adapter === "mysql" ? col.primaryKey().autoIncrement() : col.primaryKey(),
+		)
+		.addColumn("name", "varchar(50)", (col) => col.notNull())
+		.addColumn("note", "text")
+		.addColumn("big", "bigint")
+		.addColumn("created_at", "timestamp", (col) =>
+			col.notNull().defaultTo(sql`current_timestamp`),
+		)
+		.addColumn(
+			"status",
+			adapter === "postgres"
+				? sql`codegen_status`
+				: adapter === "mysql"
+					? sql`enum('draft', 'it''s published')`
+					: "text",
+		)
+		.execute();
+	await db.schema
+		.createTable("codegen_lines")
+		.addColumn("item id", "integer", (col) => col.notNull())
+		.execute();
+}
+
+async function dropTables(
+	db: Kysely<unknown>,
+	adapter: TestAdapter,
+): Promise<void> {
+	for (const table of TABLES) {
+		await db.schema.dropTable(table).ifExists().execute();
+	}
+	if (adapter === "postgres") {
+		await db.schema.dropType("codegen_status").ifExists().execute();
+	}
+}
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} generateTypes`, () => {
+		let db: Kysely<unknown>;
+
+		beforeEach(async () => {
+			db = new Kysely<unknown>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+				}),
+			});
+			await dropTables(db, adapter);
+			await createTables(db, adapter);
+		});
+
+		afterEach(async () => {
+			await dropTables(db, adapter);
+			await db.destroy();
+		});
+
+		it("should declare every table in the Database interface", async () => {
+			const source = await generateTypes(db);
+
+			expect(source).toStartWith("/**\n * Generated by kysely-bun-sql");
+			expect(source).toContain('import type { Generated } from "kysely";');
+			expect(source).toContain(
+				[
+					"export interface Database {",
+					"\tcodegen_items: CodegenItems;",
+					"\tcodegen_lines: CodegenLines;",
+					"}",
+				].join("\n"),
+			);
+			expect(source).toContain(
+				'export interface CodegenLines {\n\t"item id": number;\n}',
+			);
+		});
+
+		it("should mark generated and nullable columns", async () => {
+			const source = await generateTypes(db);
+
+			expect(source).toContain("\tid: Generated<number>;");
+			expect(source).toContain("\tname: string;");
+			expect(source).toContain("\tnote: string | null;");
+			expect(source).toContain(
+				adapter === "sqlite"
+					? "\tcreated_at: Generated<string>;"
+					: "\tcreated_at: Generated<Date>;",
+			);
+		});
+
+		it("should follow the type mapping", async () => {
+			const unmapped = await generateTypes(db);
+			const mapped = await generateTypes(db, {
+				types: { bigint: "string", timestamp: "string" },
+			});
+			const listed = await generateTypes(db, {
+				types: { bigint: "bigint", columns: { big: "bigint" } },
+			});
+
+			expect(unmapped).toContain(
+				adapter === "sqlite"
+					? "\tbig: number | null;"
+					: "\tbig: string | number | null;",
+			);
+			expect(mapped).toContain(
+				adapter === "sqlite"
+					? "\tbig: number | null;"
+					: "\tbig: string | number | null;",
+			);
+			expect(mapped).toContain("\tcreated_at: Generated<string>;");
+			expect(listed).toContain("\tbig: bigint | null;");
+		});
+
+		it("should give colliding type names a suffix", async () => {
+			for (const table of [
+				"database",
+				"codegen_order_items",
+				"CodegenOrderItems",
+			]) {
+				await db.schema.createTable(table).addColumn("id", "integer").execute();
+			}
+
+			const source = await generateTypes(db);
+
+			expect(source.match(/export interface Database \{/g)).toHaveLength(1);
+			expect(source).toContain("\tdatabase: DatabaseTable;");
+			expect(source).toContain("export interface CodegenOrderItems {");
+			expect(source).toContain("export interface CodegenOrderItemsTable {");
+		});
+
+		it("should leave out excluded tables", async () => {
+			const source = await generateTypes(db, { exclude: ["codegen_lines"] });
+
+			expect(source).not.toContain("CodegenLines");
+		});
+
+		if (adapter !== "sqlite") {
+			it("should turn enums into unions", async () => {
+				const source = await generateTypes(db);
+
+				if (adapter === "postgres") {
+					expect(source).toContain(
+						'export type CodegenStatus = "draft" | "published";',
+					);
+					expect(source).toContain("\tstatus: CodegenStatus | null;");
+				} else {
+					expect(source).toContain(
+						'\tstatus: "draft" | "it\'s published" | null;',
+					);
+				}
+			});
+		}
+
+		it.if(adapter === "postgres")(
+			"should keep enum and table type names apart",
+			async () => {
+				await db.schema
+					.createTable("codegen_status")
+					.addColumn("status", sql`codegen_status`)
+					.execute();
+
+				const source = await generateTypes(db);
+
+				expect(source).toContain(
+					'export type CodegenStatus = "draft" | "published";',
+				);
+				expect(source).toContain("export interface CodegenStatusTable {");
+				expect(source).toContain("\tcodegen_status: CodegenStatusTable;");
+			},
+		);
+	});
+}
@@ -0,0 +1,266 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+} from "bun:test";
+import type { Generated } from "kysely";
+import { Kysely, sql } from "kysely";
+import { BunSQLDialect, ConnectionLockTimeoutError } from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+interface Database {
+	stress_items: {
+		id: Generated<number>;
+		worker: number;
+		step: number;
+	};
+}
+
+const PARALLEL_TRANSACTIONS = 200;
+
+function createDatabase(adapter: TestAdapter): Kysely<Database> {
+	return new Kysely<Database>({
+		dialect: new BunSQLDialect({ database: createSQL(adapter) }),
+	});
+}
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} concurrency`, () => {
+		let db: Kysely<Database>;
+
+		beforeAll(async () => {
+			db = createDatabase(adapter);
+
+			await db.schema.dropTable("stress_items").ifExists().execute();
+			await db.schema
+				.createTable("stress_items")
+				.addColumn(
+					"id",
+					adapter === "postgres" ? "serial" : "integer",
+					(col) =>
+						adapter === "mysql"
+							? col.primaryKey().autoIncrement()
+							: col.primaryKey(),
+				)
+				.addColumn("worker", "integer", (col) => col.notNull())
+				.addColumn("step", "integer", (col) => col.notNull())
+				.execute();
+		});
+
+		beforeEach(async () => {
+			await db.deleteFrom("stress_items").execute();
+		});
+
+		afterAll(async () => {
+			await db.destroy();
+		});
+
+		it("should keep parallel connection scopes independent", async () => {
+			await Promise.all(
+				Array.from({ length: PARALLEL_TRANSACTIONS }, (_, worker) =>
+					db.connection().execute(async (conn) => {
+						await conn
+							.insertInto("stress_items")
+							.values({ worker, step: 0 })
+							.execute();
+
+						const rows = await conn
+							.selectFrom("stress_items")
+							.select("worker")
+							.where("worker", "=", worker)
+							.execute();
+
+						expect(rows).toHaveLength(1);
+					}),
+				),
+			);
+
+			const { count } = await db
+				.selectFrom("stress_items")
+				.select((eb) => eb.fn.countAll<number>().as("count"))
+				.executeTakeFirstOrThrow();
+
+			expect(Number(count)).toBe(PARALLEL_TRANSACTIONS);
+		});
+
+		it("should run hundreds of parallel transactions", async () => {
+			await Promise.all(
+				Array.from({ length: PARALLEL_TRANSACTIONS }, (_, worker) =>
+					db.transaction().execute(async (trx) => {
+						for (let step = 0; step < 3; step++) {
+							await trx
+								.insertInto("stress_items")
+								.values({ worker, step })
+								.execute();
+						}
+					}),
+				),
+			);
+
+			const { count } = await db
+				.selectFrom("stress_items")
+				.select((eb) => eb.fn.countAll<number>().as("count"))
+				.executeTakeFirstOrThrow();
+
+			expect(Number(count)).toBe(PARALLEL_TRANSACTIONS * 3);
+		});
+
+		it("should roll back only the failing transactions", async () => {
+			const results = await Promise.allSettled(
+				Array.from({ length: PARALLEL_TRANSACTIONS }, (_, worker) =>
+					db.transaction().execute(async (trx) => {
+						await trx
+							.insertInto("stress_items")
+							.values({ worker, step: 0 })
+							.execute();
+
+						if (worker % 2 === 1) {
+							throw new Error(`worker ${worker} failed`);
+						}
+					}),
+				),
+			);
+
+			expect(results.filter((r) => r.status === "rejected")).toHaveLength(
+				PARALLEL_TRANSACTIONS / 2,
+			);
+
+			const rows = await db
+				.selectFrom("stress_items")
+				.select("worker")
+				.execute();
+
+			expect(rows).toHaveLength(PARALLEL_TRANSACTIONS / 2);
+			expect(rows.every((row) => row.worker % 2 === 0)).toBe(true);
+		});
+
+		// SQLite hands out its single connection one holder at a time, so holding
+		// it while acquiring another would wait forever
+		it.skipIf(adapter === "sqlite")(
+			"should release each connection exactly once",
+			async () => {
+				// Hold one connection open while many others are acquired and released
+				await db.connection().execute(async (outer) => {
+					await Promise.all(
+						Array.from({ length: 50 }, (_, worker) =>
+							db
+								.transaction()
+								.execute((trx) =>
+									trx
+										.insertInto("stress_items")
+										.values({ worker, step: 1 })
+										.execute(),
+								),
+						),
+					);
+
+					const result = await sql<{ one: number }>`select 1 as one`.execute(
+						outer,
+					);
+					expect(Number(result.rows[0]?.one)).toBe(1);
+				});
+			},
+		);
+
+		it.if(adapter === "sqlite")(
+			"should time out a query waiting for its own transaction",
+			async () => {
+				const timed = new Kysely<Database>({
+					dialect: new BunSQLDialect({
+						database: createSQL(adapter),
+						ownsDatabase: true,
+						sqliteLockTimeout: 50,
+					}),
+				});
+
+				await timed.transaction().execute(async (trx) => {
+					await expect(sql`select 1`.execute(timed)).rejects.toBeInstanceOf(
+						ConnectionLockTimeoutError,
+					);
+
+					// The transaction keeps the connection after the timeout
+					await sql`select 1`.execute(trx);
+				});
+
+				// And the lock is handed out again once it ended
+				await sql`select 1`.execute(timed);
+				await timed.destroy();
+			},
+		);
+
+		it.if(adapter === "sqlite")(
+			"should keep concurrent queries out of other transactions",
+			async () => {
+				let rollbackTransaction!: () => void;
+				const rolledBack = new Promise<void>((resolve) => {
+					rollbackTransaction = resolve;
+				});
+
+				const transaction = db
+					.transaction()
+					.execute(async (trx) => {
+						await trx
+							.insertInto("stress_items")
+							.values({ worker: 1, step: 0 })
+							.execute();
+
+						await rolledBack;
+						throw new Error("rollback");
+					})
+					.catch(() => {});
+
+				// Issued while the transaction above is open
+				const outside = db
+					.insertInto("stress_items")
+					.values({ worker: 2, step: 0 })
+					.execute();
+
+				rollbackTransaction();
+				await Promise.all([transaction, outside]);
+
+				const rows = await db
+					.selectFrom("stress_items")
+					.select("worker")
+					.execute();
+
+				expect(rows).toEqual([{ worker: 2 }]);
+			},
+		);
+
+		it.if(adapter === "sqlite")(
+			"should isolate concurrent transactions",
+			async () => {
+				const seen = await Promise.all(
+					Array.from({ length: 20 }, (_, worker) =>
+						db.transaction().execute(async (trx) => {
+							await trx
+								.insertInto("stress_items")
+								.values({ worker, step: 0 })
+								.execute();
+
+							// Yield to let other transactions interleave if they could
+							await Bun.sleep(1);
+
+							const rows = await trx
+								.selectFrom("stress_items")
+								.select("worker")
+								.where("step", "=", 0)
+								.execute();
+
+							return rows.map((row) => row.worker);
+						}),
+					),
+				);
+
+				// Each transaction only ever saw the work committed before it
+				seen.forEach((workers, index) => {
+					expect(workers).toHaveLength(index + 1);
+					expect(workers).toContain(index);
+				});
+			},
+		);
+	});
+}
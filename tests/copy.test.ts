@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Kysely } from "kysely";
+import {
+	BunSQLDialect,
+	copyFrom,
+	copyTo,
+	UnsupportedAdapterError,
+} from "../src";
+import { parseCSV } from "../src/copy";
+import { createSQL } from "./utils";
+
+interface Database {
+	copy_items: {
+		id: number;
+		name: string | null;
+		price: string | null;
+		tags: unknown;
+	};
+}
+
+async function readAll<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+	const items: T[] = [];
+	for await (const item of iterable) {
+		items.push(item);
+	}
+	return items;
+}
+
+describe("parseCSV", () => {
+	it("should parse quoted fields split across chunks", async () => {
+		const rows = await readAll(
+			parseCSV(['1,"say ""hi"', '"",,""\r\n', '2,"two\nlines"', ",x\n"]),
+		);
+
+		expect(rows).toEqual([
+			["1", 'say "hi"', null, ""],
+			["2", "two\nlines", "x"],
+		]);
+	});
+
+	it("should use the given delimiter", async () => {
+		expect(await readAll(parseCSV(["a;b\n"], ";"))).toEqual([["a", "b"]]);
+	});
+
+	it("should reject an unterminated quote", async () => {
+		await expect(readAll(parseCSV(['1,"open\n']))).rejects.toThrow(
+			"CSV ends inside a quoted field",
+		);
+	});
+});
+
+describe("PostgreSQL copyFrom and copyTo", () => {
+	let db: Kysely<Database>;
+
+	async function selectItems() {
+		return db
+			.selectFrom("copy_items")
+			.select(["id", "name", "price"])
+			.orderBy("id")
+			.execute();
+	}
+
+	beforeEach(async () => {
+		db = new Kysely<Database>({
+			dialect: new BunSQLDialect({
+				database: createSQL("postgres"),
+				ownsDatabase: true,
+			}),
+		});
+		await db.schema.dropTable("copy_items").ifExists().execute();
+		await db.schema
+			.createTable("copy_items")
+			.addColumn("id", "integer", (col) => col.primaryKey())
+			.addColumn("name", "text")
+			.addColumn("price", "numeric(10, 2)")
+			.addColumn("tags", "jsonb")
+			.execute();
+	});
+
+	afterEach(async () => {
+		await db.schema.dropTable("copy_items").ifExists().execute();
+		await db.destroy();
+	});
+
+	it("should load rows in batches", async () => {
+		async function* rows() {
+			for (let id = 1; id <= 25; id++) {
+				yield id % 2 ? { id, name: `item ${id}`, price: id } : [id, null, null];
+			}
+		}
+
+		const { rowCount } = await copyFrom(
+			db,
+			"copy_items",
+			["id", "name", "price"],
+			rows(),
+			{ batchSize: 10 },
+		);
+
+		expect(rowCount).toBe(25);
+
+		const items = await selectItems();
+
+		expect(items).toHaveLength(25);
+		expect(items[0]).toEqual({ id: 1, name: "item 1", price: "1.00" });
+		expect(items[1]).toEqual({ id: 2, name: null, price: null });
+	});
+
+	it("should load CSV text and byte streams", async () => {
+		await copyFrom(
+			db,
+			"copy_items",
+			["id", "name", "price"],
+			'id,name,price\n1,"a, b",1.5\n2,"",\n',
+			{ header: true },
+		);
+
+		const encoder = new TextEncoder();
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(encoder.encode("3,thr"));
+				controller.enqueue(encoder.encode("ee,3\n"));
+				controller.close();
+			},
+		});
+		await copyFrom(db, "copy_items", ["id", "name", "price"], stream);
+
+		expect(await selectItems()).toEqual([
+			{ id: 1, name: "a, b", price: "1.50" },
+			{ id: 2, name: "", price: null },
+			{ id: 3, name: "three", price: "3.00" },
+		]);
+	});
+
+	it("should take part in a transaction", async () => {
+		await db
+			.transaction()
+			.execute(async (trx) => {
+				await copyFrom(trx, "copy_items", ["id"], [[1], [2]]);
+				expect(
+					await trx.selectFrom("copy_items").selectAll().execute(),
+				).toHaveLength(2);
+				throw new Error("rollback");
+			})
+			.catch(() => {});
+
+		expect(await selectItems()).toEqual([]);
+	});
+
+	it("should load nothing from a failing batch", async () => {
+		const error = await copyFrom(db, "copy_items", ["id"], [[1], [2], [1]], {
+			batchSize: 2,
+		}).catch((e) => e);
+
+		expect(error).toBeInstanceOf(Error);
+		expect(await selectItems()).toEqual([]);
+	});
+
+	it("should export a query as CSV", async () => {
+		await copyFrom(
+			db,
+			"copy_items",
+			["id", "name", "price", "tags"],
+			[
+				{ id: 1, name: 'say "hi"', price: "2.50", tags: ["a", "b"] },
+				{ id: 2, name: "", price: null, tags: null },
+			],
+		);
+
+		const stream = copyTo(
+			db,
+			db.selectFrom("copy_items").selectAll().orderBy("id"),
+			{ header: true, chunkSize: 1 },
+		);
+
+		expect(stream).toBeInstanceOf(ReadableStream);
+		expect((await readAll(stream)).join("")).toBe(
+			'id,name,price,tags\n1,"say ""hi""",2.50,"[""a"",""b""]"\n2,"",,\n',
+		);
+	});
+
+	it("should round-trip through copyFrom", async () => {
+		await copyFrom(
+			db,
+			"copy_items",
+			["id", "name"],
+			[
+				[1, "a,b"],
+				[2, null],
+			],
+		);
+
+		const csv = await new Response(
+			copyTo(db, db.selectFrom("copy_items").select(["id", "name"])),
+		).text();
+		await db.deleteFrom("copy_items").execute();
+		await copyFrom(db, "copy_items", ["id", "name"], csv);
+
+		expect(await selectItems()).toEqual([
+			{ id: 1, name: "a,b", price: null },
+			{ id: 2, name: null, price: null },
+		]);
+	});
+});
+
+describe("SQLite copyFrom and copyTo", () => {
+	it("should reject non-PostgreSQL databases", async () => {
+		const db = new Kysely<Database>({
+			dialect: new BunSQLDialect({ database: ":memory:" }),
+		});
+
+		await expect(
+			copyFrom(db, "copy_items", ["id"], [[1]]),
+		).rejects.toBeInstanceOf(UnsupportedAdapterError);
+		expect(() => copyTo(db, db.selectFrom("copy_items").selectAll())).toThrow(
+			UnsupportedAdapterError,
+		);
+
+		await db.destroy();
+	});
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test";
+import { SQL } from "bun";
+import { Kysely, sql } from "kysely";
+import { BunSQLDialect } from "../src";
+import { ownsDatabase } from "../src/database";
+
+async function selectOne(db: Kysely<unknown>): Promise<number> {
+	const result = await sql<{ one: number }>`select 1 as one`.execute(db);
+	return Number(result.rows[0]?.one);
+}
+
+describe("ownsDatabase", () => {
+	it("should only own instances created by the dialect", () => {
+		expect(ownsDatabase({ database: new SQL(":memory:") })).toBe(false);
+		expect(ownsDatabase({ database: ":memory:" })).toBe(true);
+		expect(ownsDatabase({ database: { filename: ":memory:" } })).toBe(true);
+		expect(
+			ownsDatabase({ database: () => new SQL(":memory:"), adapter: "sqlite" }),
+		).toBe(true);
+		expect(
+			ownsDatabase({ database: new SQL(":memory:"), ownsDatabase: true }),
+		).toBe(true);
+	});
+});
+
+describe("BunSQLDialect database sources", () => {
+	it("should connect from a connection string", async () => {
+		const db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({ database: ":memory:" }),
+		});
+
+		expect(await selectOne(db)).toBe(1);
+		await db.destroy();
+	});
+
+	it("should connect from an options object", async () => {
+		const db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({
+				database: { adapter: "sqlite", filename: ":memory:" },
+			}),
+		});
+
+		expect(await selectOne(db)).toBe(1);
+		await db.destroy();
+	});
+
+	it("should call the factory lazily, once", async () => {
+		let calls = 0;
+		const db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({
+				adapter: "sqlite",
+				database: async () => {
+					calls++;
+					return new SQL(":memory:");
+				},
+			}),
+		});
+
+		expect(calls).toBe(0);
+		expect(await selectOne(db)).toBe(1);
+		expect(await selectOne(db)).toBe(1);
+		expect(calls).toBe(1);
+
+		await db.destroy();
+	});
+
+	it("should leave a ready-made instance open on destroy", async () => {
+		const database = new SQL(":memory:");
+		const db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({ database }),
+		});
+
+		await selectOne(db);
+		await db.destroy();
+
+		const [row] = await database`select 1 as one`;
+		expect(row.one).toBe(1);
+
+		await database.close();
+	});
+
+	it("should close a ready-made instance it was told it owns", async () => {
+		const database = new SQL(":memory:");
+		const db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({ database, ownsDatabase: true }),
+		});
+
+		await selectOne(db);
+		await db.destroy();
+
+		let error: unknown;
+		try {
+			await database`select 1 as one`;
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(SQL.SQLError);
+	});
+});
@@ -0,0 +1,249 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+} from "bun:test";
+import { Kysely, sql } from "kysely";
+import {
+	BunSQLDialect,
+	BunSQLQueryError,
+	ConnectionLostError,
+	DeadlockError,
+	ForeignKeyViolationError,
+	NotNullViolationError,
+	SerializationFailureError,
+	SQLSyntaxError,
+	UniqueViolationError,
+} from "../src";
+import { toBunSQLQueryError } from "../src/errors";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+interface Database {
+	error_parents: {
+		id: number;
+	};
+	error_children: {
+		id: number;
+		parent_id: number | null;
+		email: string | null;
+	};
+}
+
+function createDatabase(adapter: TestAdapter): Kysely<Database> {
+	return new Kysely<Database>({
+		dialect: new BunSQLDialect({ database: createSQL(adapter) }),
+	});
+}
+
+async function catchError(promise: Promise<unknown>): Promise<unknown> {
+	try {
+		await promise;
+	} catch (error) {
+		return error;
+	}
+	throw new Error("Expected the query to fail");
+}
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} errors`, () => {
+		let db: Kysely<Database>;
+
+		beforeAll(async () => {
+			db = createDatabase(adapter);
+
+			if (adapter === "sqlite") {
+				await sql`pragma foreign_keys = on`.execute(db);
+			}
+
+			await db.schema.dropTable("error_children").ifExists().execute();
+			await db.schema.dropTable("error_parents").ifExists().execute();
+			await db.schema
+				.createTable("error_parents")
+				.addColumn("id", "integer", (col) => col.primaryKey())
+				.execute();
+			await db.schema
+				.createTable("error_children")
+				.addColumn("id", "integer", (col) => col.primaryKey())
+				.addColumn("parent_id", "integer", (col) =>
+					col.references("error_parents.id"),
+				)
+				.addColumn("email", "varchar(255)", (col) => col.notNull().unique())
+				.execute();
+		});
+
+		beforeEach(async () => {
+			await db.deleteFrom("error_children").execute();
+			await db.deleteFrom("error_parents").execute();
+		});
+
+		afterAll(async () => {
+			await db.destroy();
+		});
+
+		it("should raise UniqueViolationError", async () => {
+			await db
+				.insertInto("error_children")
+				.values({ id: 1, parent_id: null, email: "a@example.com" })
+				.execute();
+
+			const error = await catchError(
+				db
+					.insertInto("error_children")
+					.values({ id: 2, parent_id: null, email: "a@example.com" })
+					.execute(),
+			);
+
+			expect(error).toBeInstanceOf(UniqueViolationError);
+			expect(error).toBeInstanceOf(BunSQLQueryError);
+
+			const queryError = error as UniqueViolationError;
+			expect(queryError.adapter).toBe(adapter);
+			expect(queryError.cause).toBeInstanceOf(Error);
+			expect(queryError.sql).toContain("insert into");
+
+			if (adapter === "sqlite") {
+				expect(queryError.table).toBe("error_children");
+				expect(queryError.column).toBe("email");
+			} else {
+				expect(queryError.constraint).toBeDefined();
+			}
+		});
+
+		it("should raise ForeignKeyViolationError", async () => {
+			const error = await catchError(
+				db
+					.insertInto("error_children")
+					.values({ id: 1, parent_id: 42, email: "a@example.com" })
+					.execute(),
+			);
+
+			expect(error).toBeInstanceOf(ForeignKeyViolationError);
+		});
+
+		it("should raise NotNullViolationError", async () => {
+			const error = await catchError(
+				db
+					.insertInto("error_children")
+					.values({ id: 1, parent_id: null, email: null })
+					.execute(),
+			);
+
+			expect(error).toBeInstanceOf(NotNullViolationError);
+		});
+
+		it("should raise SQLSyntaxError", async () => {
+			const error = await catchError(sql`selec 1`.execute(db));
+
+			expect(error).toBeInstanceOf(SQLSyntaxError);
+			expect((error as SQLSyntaxError).sql).toBe("selec 1");
+		});
+
+		it("should fall back to BunSQLQueryError", async () => {
+			const error = await catchError(
+				sql`select * from error_missing_table`.execute(db),
+			);
+
+			expect(error).toBeInstanceOf(BunSQLQueryError);
+			expect((error as Error).message).toStartWith(
+				"Bun SQL query execution failed:",
+			);
+		});
+	});
+}
+
+describe("toBunSQLQueryError", () => {
+	it("should map Postgres SQLSTATE codes", () => {
+		const cause = Object.assign(new Error("could not serialize access"), {
+			code: "ERR_POSTGRES_SERVER_ERROR",
+			errno: "40001",
+			detail: "Reason code: Canceled on identification",
+			hint: "The transaction might succeed if retried.",
+		});
+
+		const error = toBunSQLQueryError(cause, "postgres", "update t set x = 1");
+
+		expect(error).toBeInstanceOf(SerializationFailureError);
+		expect(error.sqlState).toBe("40001");
+		expect(error.code).toBe("ERR_POSTGRES_SERVER_ERROR");
+		expect(error.detail).toBe("Reason code: Canceled on identification");
+		expect(error.hint).toBe("The transaction might succeed if retried.");
+		expect(error.sql).toBe("update t set x = 1");
+		expect(error.cause).toBe(cause);
+
+		expect(
+			toBunSQLQueryError(
+				Object.assign(new Error("deadlock detected"), { errno: "40P01" }),
+				"postgres",
+			),
+		).toBeInstanceOf(DeadlockError);
+	});
+
+	it("should map Postgres unique violations with their constraint", () => {
+		const error = toBunSQLQueryError(
+			Object.assign(new Error("duplicate key value"), {
+				errno: "23505",
+				constraint: "users_email_key",
+				table: "users",
+			}),
+			"postgres",
+		);
+
+		expect(error).toBeInstanceOf(UniqueViolationError);
+		expect(error.constraint).toBe("users_email_key");
+		expect(error.table).toBe("users");
+	});
+
+	it("should map MySQL errno values", () => {
+		const error = toBunSQLQueryError(
+			Object.assign(
+				new Error("Duplicate entry 'a@example.com' for key 'users.email'"),
+				{ code: "ER_DUP_ENTRY", errno: 1062, sqlState: "23000" },
+			),
+			"mysql",
+		);
+
+		expect(error).toBeInstanceOf(UniqueViolationError);
+		expect(error.errno).toBe(1062);
+		expect(error.sqlState).toBe("23000");
+		expect(error.constraint).toBe("email");
+
+		expect(
+			toBunSQLQueryError(
+				Object.assign(new Error("Deadlock found"), {
+					errno: 1213,
+					sqlState: "40001",
+				}),
+				"mariadb",
+			),
+		).toBeInstanceOf(DeadlockError);
+	});
+
+	it("should map lost connections", () => {
+		expect(
+			toBunSQLQueryError(
+				Object.assign(new Error("Connection closed"), {
+					code: "ERR_POSTGRES_CONNECTION_CLOSED",
+				}),
+				"postgres",
+			),
+		).toBeInstanceOf(ConnectionLostError);
+
+		expect(
+			toBunSQLQueryError(
+				Object.assign(new Error("Lost connection"), { errno: 2013 }),
+				"mysql",
+			),
+		).toBeInstanceOf(ConnectionLostError);
+	});
+
+	it("should wrap non-error values", () => {
+		const error = toBunSQLQueryError("boom", "sqlite");
+
+		expect(error).toBeInstanceOf(BunSQLQueryError);
+		expect(error.message).toBe("Bun SQL query execution failed: boom");
+		expect(error.cause).toBe("boom");
+	});
+});
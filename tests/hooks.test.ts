@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { SQL } from "bun";
+import { CompiledQuery, type DatabaseConnection, Kysely, sql } from "kysely";
+import { BunSQLDialect, type BunSQLOptions } from "../src";
+import {
+	ADAPTER_NAMES,
+	ADAPTERS,
+	createSQL,
+	DATABASE_URLS,
+	type TestAdapter,
+} from "./utils";
+
+// Session setup per adapter, and a query reading the setting back
+const SESSION_SETUP: Record<TestAdapter, { set: string; get: string }> = {
+	postgres: {
+		set: "set time zone 'Asia/Tokyo'",
+		get: "select current_setting('TimeZone') as value",
+	},
+	mysql: {
+		set: "set session sql_mode = 'ANSI_QUOTES'",
+		get: "select @@session.sql_mode as value",
+	},
+	sqlite: {
+		set: "pragma foreign_keys = on",
+		get: "select foreign_keys as value from pragma_foreign_keys",
+	},
+};
+
+const EXPECTED_SETTING: Record<TestAdapter, string> = {
+	postgres: "Asia/Tokyo",
+	mysql: "ANSI_QUOTES",
+	sqlite: "1",
+};
+
+async function execute(connection: DatabaseConnection, query: string) {
+	return connection.executeQuery<{ value: unknown }>(CompiledQuery.raw(query));
+}
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} connection hooks`, () => {
+		let db: Kysely<unknown> | undefined;
+
+		function createDatabase(
+			hooks: Omit<BunSQLOptions, "database">,
+		): Kysely<unknown> {
+			db = new Kysely<unknown>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+					...hooks,
+				}),
+			});
+			return db;
+		}
+
+		async function readSetting(kysely: Kysely<unknown>) {
+			const result = await sql<{ value: unknown }>`${sql.raw(
+				SESSION_SETUP[adapter].get,
+			)}`.execute(kysely);
+			return String(result.rows[0]?.value);
+		}
+
+		afterEach(async () => {
+			await db?.destroy();
+			db = undefined;
+		});
+
+		it("should run session setup in onCreateConnection", async () => {
+			const kysely = createDatabase({
+				onCreateConnection: async (connection) => {
+					await execute(connection, SESSION_SETUP[adapter].set);
+				},
+			});
+
+			for (let i = 0; i < 5; i++) {
+				expect(await readSetting(kysely)).toBe(EXPECTED_SETTING[adapter]);
+			}
+		});
+
+		it("should run onCreateConnection once per physical connection", async () => {
+			const created: unknown[] = [];
+			const kysely = createDatabase({
+				onCreateConnection: async (connection) => {
+					created.push(connection);
+				},
+			});
+
+			await Promise.all(
+				Array.from({ length: 20 }, () => sql`select 1`.execute(kysely)),
+			);
+			for (let i = 0; i < 20; i++) {
+				await sql`select 1`.execute(kysely);
+			}
+
+			expect(created.length).toBeGreaterThan(0);
+			// Bun's default pool holds at most 10 connections
+			expect(created.length).toBeLessThanOrEqual(adapter === "sqlite" ? 1 : 10);
+		});
+
+		// RESET ALL clears session setup, and the mark of the hook with it
+		it.skipIf(adapter !== "postgres")(
+			"should run onCreateConnection again after a session reset",
+			async () => {
+				let created = 0;
+				db = new Kysely<unknown>({
+					dialect: new BunSQLDialect({
+						database: new SQL({ url: DATABASE_URLS[adapter], max: 1 }),
+						ownsDatabase: true,
+						onCreateConnection: async () => {
+							created += 1;
+						},
+					}),
+				});
+
+				await sql`select 1`.execute(db);
+				await sql`select 1`.execute(db);
+				expect(created).toBe(1);
+
+				await sql`reset all`.execute(db);
+				await sql`select 1`.execute(db);
+				expect(created).toBe(2);
+			},
+		);
+
+		it("should run reserve and release hooks around every use", async () => {
+			const events: string[] = [];
+			const kysely = createDatabase({
+				onReserveConnection: async (connection) => {
+					await execute(connection, "select 1 as value");
+					events.push("reserve");
+				},
+				onReleaseConnection: async () => {
+					events.push("release");
+				},
+			});
+
+			await sql`select 1`.execute(kysely);
+			await kysely.transaction().execute((trx) => sql`select 1`.execute(trx));
+
+			expect(events).toEqual(["reserve", "release", "reserve", "release"]);
+		});
+
+		it("should release the connection when a hook fails", async () => {
+			let failures = 3;
+			const kysely = createDatabase({
+				onReserveConnection: async () => {
+					if (failures-- > 0) {
+						throw new Error("reserve hook failed");
+					}
+				},
+			});
+
+			for (let i = 0; i < 3; i++) {
+				await expect(sql`select 1`.execute(kysely)).rejects.toThrow(
+					"reserve hook failed",
+				);
+			}
+
+			const result = await sql<{ one: number }>`select 1 as one`.execute(
+				kysely,
+			);
+			expect(Number(result.rows[0]?.one)).toBe(1);
+		});
+
+		it("should retry onCreateConnection after it fails", async () => {
+			let attempts = 0;
+			const kysely = createDatabase({
+				onCreateConnection: async (connection) => {
+					if (attempts++ === 0) {
+						throw new Error("create hook failed");
+					}
+					await execute(connection, SESSION_SETUP[adapter].set);
+				},
+			});
+
+			await expect(sql`select 1`.execute(kysely)).rejects.toThrow(
+				"create hook failed",
+			);
+			expect(await readSetting(kysely)).toBe(EXPECTED_SETTING[adapter]);
+		});
+
+		it("should release the connection when the release hook fails", async () => {
+			let failRelease = true;
+			const kysely = createDatabase({
+				onReleaseConnection: async () => {
+					if (failRelease) {
+						failRelease = false;
+						throw new Error("release hook failed");
+					}
+				},
+			});
+
+			await expect(sql`select 1`.execute(kysely)).rejects.toThrow(
+				"release hook failed",
+			);
+
+			const result = await sql<{ one: number }>`select 1 as one`.execute(
+				kysely,
+			);
+			expect(Number(result.rows[0]?.one)).toBe(1);
+		});
+	});
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Kysely, sql } from "kysely";
+import { BunSQLDialect, listen, notify, UnsupportedAdapterError } from "../src";
+import { createSQL } from "./utils";
+
+/**
+ * Collects payloads, resolving `done` once `count` of them arrived
+ */
+function collect<T>(count: number): {
+	received: T[];
+	handler: (payload: T) => void;
+	done: Promise<T[]>;
+} {
+	const received: T[] = [];
+	const { promise, resolve } = Promise.withResolvers<T[]>();
+
+	return {
+		received,
+		handler: (payload) => {
+			received.push(payload);
+			if (received.length === count) {
+				resolve(received);
+			}
+		},
+		done: promise,
+	};
+}
+
+describe("PostgreSQL listen and notify", () => {
+	let db: Kysely<unknown>;
+
+	beforeEach(() => {
+		db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({
+				database: createSQL("postgres"),
+				ownsDatabase: true,
+			}),
+		});
+	});
+
+	afterEach(async () => {
+		await db.destroy();
+	});
+
+	it("should deliver notifications until unsubscribed", async () => {
+		const { received, handler, done } = collect<string>(2);
+		const unsubscribe = await listen(db, "listen_test", handler);
+
+		await notify(db, "listen_test", "first");
+		await notify(db, "listen_test", "second");
+
+		expect(await done).toEqual(["first", "second"]);
+
+		await unsubscribe();
+		await notify(db, "listen_test", "third");
+		await Bun.sleep(100);
+
+		expect(received).toEqual(["first", "second"]);
+	});
+
+	it("should parse payloads", async () => {
+		const { handler, done } = collect<{ id: number }>(1);
+		await listen(db, "listen_json", handler, {
+			parse: (payload) => JSON.parse(payload),
+		});
+
+		await notify(db, "listen_json", { id: 42 });
+
+		expect(await done).toEqual([{ id: 42 }]);
+	});
+
+	it("should only deliver notifications of committed transactions", async () => {
+		const { received, handler, done } = collect<string>(1);
+		await listen(db, "listen_trx", handler);
+
+		await db
+			.transaction()
+			.execute(async (trx) => {
+				await notify(trx, "listen_trx", "rolled back");
+				throw new Error("rollback");
+			})
+			.catch(() => {});
+		await db.transaction().execute(async (trx) => {
+			await notify(trx, "listen_trx", "committed");
+			await Bun.sleep(50);
+			expect(received).toEqual([]);
+		});
+
+		expect(await done).toEqual(["committed"]);
+	});
+
+	it("should subscribe again after the listener connection dropped", async () => {
+		let listens = 0;
+		const relistened = Promise.withResolvers<void>();
+		const { handler, done } = collect<string>(1);
+
+		await listen(db, "listen_reconnect", handler, {
+			onListen: () => {
+				listens += 1;
+				if (listens === 2) {
+					relistened.resolve();
+				}
+			},
+		});
+
+		await sql`
+			select pg_terminate_backend(pid) from pg_stat_activity
+			where query = 'LISTEN "listen_reconnect"'
+		`.execute(db);
+		await relistened.promise;
+		await notify(db, "listen_reconnect", "after reconnect");
+
+		expect(await done).toEqual(["after reconnect"]);
+	});
+});
+
+describe("SQLite listen and notify", () => {
+	it("should reject non-PostgreSQL databases", async () => {
+		const db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({ database: ":memory:" }),
+		});
+
+		await expect(listen(db, "channel", () => {})).rejects.toBeInstanceOf(
+			UnsupportedAdapterError,
+		);
+		await expect(notify(db, "channel", "payload")).rejects.toBeInstanceOf(
+			UnsupportedAdapterError,
+		);
+
+		await db.destroy();
+	});
+});
@@ -0,0 +1,221 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { Kysely, sql } from "kysely";
+import {
+	BunSQLDialect,
+	type BunSQLOptions,
+	type BunSQLQueryEvent,
+	UniqueViolationError,
+} from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+interface Database {
+	logging_items: {
+		id: number;
+		name: string;
+	};
+}
+
+// The statement each adapter opens a default transaction with
+const BEGIN_STATEMENT: Record<TestAdapter, string> = {
+	postgres: "begin",
+	mysql: "start transaction",
+	sqlite: "begin",
+};
+
+// The statement every reserved connection looks its id up with
+const CONNECTION_ID_STATEMENT: Record<TestAdapter, string | undefined> = {
+	postgres: "select pg_backend_pid() as id",
+	mysql: "select connection_id() as id",
+	sqlite: undefined,
+};
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} query logging`, () => {
+		let db: Kysely<Database> | undefined;
+		let events: BunSQLQueryEvent[] = [];
+		let lookups: BunSQLQueryEvent[] = [];
+
+		async function createDatabase(
+			options: Omit<BunSQLOptions, "database"> = {},
+		): Promise<Kysely<Database>> {
+			db = new Kysely<Database>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+					onQuery: (event) =>
+						(event.sql === CONNECTION_ID_STATEMENT[adapter]
+							? lookups
+							: events
+						).push(event),
+					...options,
+				}),
+			});
+
+			await db.schema.dropTable("logging_items").ifExists().execute();
+			await db.schema
+				.createTable("logging_items")
+				.addColumn("id", "integer", (col) => col.primaryKey())
+				.addColumn("name", "varchar(255)", (col) => col.notNull())
+				.execute();
+			events = [];
+			lookups = [];
+
+			return db;
+		}
+
+		afterEach(async () => {
+			await db?.schema.dropTable("logging_items").ifExists().execute();
+			await db?.destroy();
+			db = undefined;
+			events = [];
+			lookups = [];
+		});
+
+		it("should report sql, parameters, rows and timing", async () => {
+			const kysely = await createDatabase();
+
+			await kysely
+				.insertInto("logging_items")
+				.values([
+					{ id: 1, name: "a" },
+					{ id: 2, name: "b" },
+				])
+				.execute();
+			await kysely
+				.selectFrom("logging_items")
+				.selectAll()
+				.where("id", ">", 0)
+				.execute();
+
+			expect(events).toHaveLength(2);
+
+			const [insert, select] = events as [BunSQLQueryEvent, BunSQLQueryEvent];
+
+			expect(insert.sql).toStartWith("insert into");
+			expect(insert.parameters).toEqual([1, "a", 2, "b"]);
+			expect(insert.numAffectedRows).toBe(2n);
+			expect(insert.error).toBeUndefined();
+
+			expect(select.sql).toStartWith("select");
+			expect(select.parameters).toEqual([0]);
+			expect(select.rowCount).toBe(2);
+			expect(select.durationMs).toBeGreaterThanOrEqual(0);
+
+			for (const event of events) {
+				expect(event.adapter).toBe(adapter);
+				expect(event.replica).toBe(false);
+				expect(event.connectionId).toBeString();
+			}
+		});
+
+		it("should report transaction statements on one connection", async () => {
+			const kysely = await createDatabase();
+
+			await kysely
+				.transaction()
+				.execute((trx) =>
+					trx
+						.insertInto("logging_items")
+						.values({ id: 1, name: "a" })
+						.execute(),
+				);
+			await kysely
+				.transaction()
+				.execute(async (trx) => {
+					await trx
+						.insertInto("logging_items")
+						.values({ id: 2, name: "b" })
+						.execute();
+					throw new Error("abort");
+				})
+				.catch(() => {});
+
+			expect(events.map((event) => event.sql.split(" ")[0])).toEqual([
+				BEGIN_STATEMENT[adapter].split(" ")[0],
+				"insert",
+				"commit",
+				BEGIN_STATEMENT[adapter].split(" ")[0],
+				"insert",
+				"rollback",
+			]);
+			expect(events[0]?.sql).toBe(BEGIN_STATEMENT[adapter]);
+
+			const [first, , commit] = events;
+			expect(commit?.connectionId).toBe(first?.connectionId);
+		});
+
+		it("should report failed statements with their error", async () => {
+			const kysely = await createDatabase();
+
+			await kysely
+				.insertInto("logging_items")
+				.values({ id: 1, name: "a" })
+				.execute();
+			const error = await kysely
+				.insertInto("logging_items")
+				.values({ id: 1, name: "b" })
+				.execute()
+				.catch((e) => e);
+
+			expect(error).toBeInstanceOf(UniqueViolationError);
+			expect(events).toHaveLength(2);
+			expect(events[1]?.error).toBe(error);
+			expect(events[1]?.rowCount).toBe(0);
+			expect(events[1]?.parameters).toEqual([1, "b"]);
+		});
+
+		it.skipIf(adapter === "sqlite")(
+			"should report the connection id lookups",
+			async () => {
+				const kysely = await createDatabase();
+
+				await sql`select 1`.execute(kysely);
+
+				expect(lookups).toHaveLength(1);
+				expect(lookups[0]?.rowCount).toBe(1);
+				expect(events[0]?.connectionId).toBeString();
+			},
+		);
+
+		it("should redact parameters", async () => {
+			const kysely = await createDatabase({ redactParameters: true });
+
+			await kysely
+				.insertInto("logging_items")
+				.values({ id: 1, name: "secret" })
+				.execute();
+
+			expect(events[0]?.parameters).toEqual(["[redacted]", "[redacted]"]);
+		});
+
+		it("should redact parameters with a custom function", async () => {
+			const kysely = await createDatabase({
+				redactParameters: (parameters) =>
+					parameters.map((value) =>
+						typeof value === "string" ? "***" : value,
+					),
+			});
+
+			await kysely
+				.insertInto("logging_items")
+				.values({ id: 1, name: "secret" })
+				.execute();
+
+			expect(events[0]?.parameters).toEqual([1, "***"]);
+		});
+
+		it("should not fail queries when the listener throws", async () => {
+			const kysely = await createDatabase({
+				onQuery: () => {
+					throw new Error("listener failed");
+				},
+			});
+
+			const result = await sql<{
+				one: number;
+			}>`select 1 as one`.execute(kysely);
+
+			expect(Number(result.rows[0]?.one)).toBe(1);
+		});
+	});
+}
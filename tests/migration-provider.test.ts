@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Kysely, Migrator } from "kysely";
+import { BunSQLDialect, ScriptError, SQLFileMigrationProvider } from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL } from "./utils";
+
+interface Database {
+	migration_items: {
+		id: number;
+		name: string;
+	};
+}
+
+async function writeMigrations(
+	folder: string,
+	files: Record<string, string>,
+): Promise<void> {
+	for (const [name, contents] of Object.entries(files)) {
+		await Bun.write(join(folder, name), contents);
+	}
+}
+
+describe("SQLFileMigrationProvider", () => {
+	let folder: string;
+
+	beforeEach(async () => {
+		folder = await mkdtemp(join(tmpdir(), "kysely-bun-sql-migrations-"));
+	});
+
+	afterEach(async () => {
+		await rm(folder, { recursive: true, force: true });
+	});
+
+	it("should pair up and down files by name", async () => {
+		await writeMigrations(folder, {
+			"0001_create_items.up.sql": "create table items (id integer);",
+			"0001_create_items.down.sql": "drop table items;",
+			"0002_seed_items.up.sql": "insert into items values (1);",
+			"README.md": "not a migration",
+			"notes.sql": "-- not a migration either",
+		});
+
+		const migrations = await new SQLFileMigrationProvider({
+			migrationFolder: folder,
+		}).getMigrations();
+
+		expect(Object.keys(migrations).sort()).toEqual([
+			"0001_create_items",
+			"0002_seed_items",
+		]);
+		expect(migrations["0001_create_items"]?.down).toBeFunction();
+		expect(migrations["0002_seed_items"]?.down).toBeUndefined();
+	});
+
+	it("should reject a down file without an up file", async () => {
+		await writeMigrations(folder, {
+			"0001_orphan.down.sql": "drop table items;",
+		});
+
+		const error = await new SQLFileMigrationProvider({
+			migrationFolder: folder,
+		})
+			.getMigrations()
+			.catch((e) => e);
+
+		expect(error.message).toBe(
+			'Migration "0001_orphan" has a .down.sql file but no .up.sql file',
+		);
+	});
+});
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} SQLFileMigrationProvider`, () => {
+		let folder: string;
+		let db: Kysely<Database>;
+
+		function createMigrator(disableTransactions = true) {
+			return new Migrator({
+				db,
+				provider: new SQLFileMigrationProvider({ migrationFolder: folder }),
+				migrationTableName: "sql_migrations",
+				migrationLockTableName: "sql_migrations_lock",
+				disableTransactions,
+			});
+		}
+
+		beforeEach(async () => {
+			folder = await mkdtemp(join(tmpdir(), "kysely-bun-sql-migrations-"));
+			db = new Kysely<Database>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+				}),
+			});
+
+			for (const table of [
+				"migration_items",
+				"sql_migrations",
+				"sql_migrations_lock",
+			]) {
+				await db.schema.dropTable(table).ifExists().execute();
+			}
+
+			await writeMigrations(folder, {
+				"0001_create_items.up.sql": `
+					create table migration_items (id integer primary key, name varchar(50));
+					insert into migration_items values (1, 'first');
+				`,
+				"0001_create_items.down.sql": "drop table migration_items;",
+				"0002_seed_items.up.sql": `
+					insert into migration_items values (2, 'second');
+					insert into migration_items values (3, 'third');
+				`,
+				"0002_seed_items.down.sql":
+					"delete from migration_items where id in (2, 3);",
+			});
+		});
+
+		afterEach(async () => {
+			for (const table of [
+				"migration_items",
+				"sql_migrations",
+				"sql_migrations_lock",
+			]) {
+				await db.schema.dropTable(table).ifExists().execute();
+			}
+			await db.destroy();
+			await rm(folder, { recursive: true, force: true });
+		});
+
+		it("should migrate up and down", async () => {
+			const migrator = createMigrator();
+
+			const up = await migrator.migrateToLatest();
+
+			expect(up.error).toBeUndefined();
+			expect(up.results?.map((result) => result.migrationName)).toEqual([
+				"0001_create_items",
+				"0002_seed_items",
+			]);
+			expect(
+				await db.selectFrom("migration_items").selectAll().execute(),
+			).toHaveLength(3);
+
+			const down = await migrator.migrateDown();
+
+			expect(down.error).toBeUndefined();
+			expect(
+				await db.selectFrom("migration_items").selectAll().execute(),
+			).toHaveLength(1);
+		});
+
+		it("should roll back only the failing migration", async () => {
+			await writeMigrations(folder, {
+				"0003_broken.up.sql": `
+					insert into migration_items values (4, 'fourth');
+					insert into migration_items values (4, 'duplicate');
+				`,
+			});
+
+			const { error, results } = await createMigrator().migrateToLatest();
+
+			expect(error).toBeInstanceOf(ScriptError);
+			expect((error as ScriptError).line).toBe(3);
+			expect(results?.map((result) => result.status)).toEqual([
+				"Success",
+				"Success",
+				"Error",
+			]);
+			// The earlier migrations stay applied, the broken one left no rows
+			expect(
+				await db
+					.selectFrom("migration_items")
+					.select("id")
+					.orderBy("id")
+					.execute(),
+			).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+		});
+
+		it.if(adapter === "postgres")(
+			"should serialize concurrent runs without transactions",
+			async () => {
+				await writeMigrations(folder, {
+					"0003_slow.up.sql": "select pg_sleep(0.5);",
+				});
+
+				const runs = await Promise.all([
+					createMigrator().migrateToLatest(),
+					createMigrator().migrateToLatest(),
+				]);
+
+				// One run applied every migration, the other found none pending
+				expect(runs.map(({ error }) => error)).toEqual([undefined, undefined]);
+				expect(runs.map(({ results }) => results?.length ?? 0).sort()).toEqual([
+					0, 3,
+				]);
+			},
+		);
+
+		it("should work with the Migrator's own transaction handling", async () => {
+			const { error } = await createMigrator(false).migrateToLatest();
+
+			expect(error).toBeUndefined();
+			expect(
+				await db.selectFrom("migration_items").selectAll().execute(),
+			).toHaveLength(3);
+		});
+	});
+}
@@ -0,0 +1,178 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { SQL } from "bun";
+import { Kysely, sql } from "kysely";
+import {
+	BunSQLDialect,
+	type BunSQLOptions,
+	InvalidQueryOptionsError,
+	withQueryOptions,
+} from "../src";
+import { StatementCache } from "../src/statement-cache";
+import { ADAPTER_NAMES, ADAPTERS, DATABASE_URLS } from "./utils";
+
+describe("StatementCache", () => {
+	it("should report hits for statements it holds", () => {
+		const cache = new StatementCache(2);
+
+		expect(cache.use("select 1")).toBe(false);
+		expect(cache.use("select 1")).toBe(true);
+		expect(cache.size).toBe(1);
+	});
+
+	it("should evict the least recently used statement", () => {
+		const cache = new StatementCache(2);
+
+		cache.use("select 1");
+		cache.use("select 2");
+		// Touching the oldest makes "select 2" the next to go
+		cache.use("select 1");
+		cache.use("select 3");
+
+		expect(cache.size).toBe(2);
+		expect(cache.has("select 1")).toBe(true);
+		expect(cache.has("select 2")).toBe(false);
+		expect(cache.has("select 3")).toBe(true);
+	});
+});
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} prepared statements`, () => {
+		let dialect: BunSQLDialect;
+		let db: Kysely<unknown> | undefined;
+
+		function createDatabase(
+			options: Partial<BunSQLOptions> = {},
+		): Kysely<unknown> {
+			dialect = new BunSQLDialect({
+				database: DATABASE_URLS[adapter],
+				statementCacheSize: 2,
+				...options,
+			});
+			db = new Kysely<unknown>({ dialect });
+			return db;
+		}
+
+		afterEach(async () => {
+			await db?.destroy();
+			db = undefined;
+		});
+
+		it("should count cache hits and misses per connection", async () => {
+			const kysely = createDatabase();
+
+			// A single connection, so every statement lands in the same cache
+			await kysely.connection().execute(async (conn) => {
+				await sql`select 1`.execute(conn);
+				await sql`select 1`.execute(conn);
+				await sql`select ${2} as value`.execute(conn);
+				await sql`select ${3} as value`.execute(conn);
+			});
+
+			const stats = dialect.getStats();
+
+			expect(stats.preparedStatementCacheHits).toBe(2);
+			expect(stats.preparedStatementCacheMisses).toBe(2);
+		});
+
+		it("should count evicted statements as misses again", async () => {
+			const kysely = createDatabase();
+
+			await kysely.connection().execute(async (conn) => {
+				await sql`select 1`.execute(conn);
+				await sql`select 2`.execute(conn);
+				await sql`select 3`.execute(conn);
+				await sql`select 1`.execute(conn);
+			});
+
+			const stats = dialect.getStats();
+
+			expect(stats.preparedStatementCacheHits).toBe(0);
+			expect(stats.preparedStatementCacheMisses).toBe(4);
+		});
+
+		it("should not track statements without statementCacheSize", async () => {
+			const kysely = createDatabase({ statementCacheSize: undefined });
+
+			await sql`select 1`.execute(kysely);
+			await sql`select 1`.execute(kysely);
+
+			const stats = dialect.getStats();
+
+			expect(stats.preparedStatementCacheHits).toBe(0);
+			expect(stats.preparedStatementCacheMisses).toBe(0);
+		});
+
+		it("should skip preparation per query", async () => {
+			const kysely = createDatabase();
+
+			const { rows } = await withQueryOptions({ prepare: false }, () =>
+				sql<{ value: number }>`select 1 as value`.execute(kysely),
+			);
+
+			expect(Number(rows[0]?.value)).toBe(1);
+			expect(dialect.getStats().preparedStatementCacheMisses).toBe(0);
+		});
+
+		it("should reject parameters in unprepared queries", async () => {
+			const kysely = createDatabase();
+
+			const error = await withQueryOptions({ prepare: false }, () =>
+				sql`select ${1} as value`.execute(kysely),
+			).catch((e) => e);
+
+			expect(error).toBeInstanceOf(InvalidQueryOptionsError);
+			expect(error.option).toBe("prepare");
+			expect(error.message).toContain(
+				"prepare: false only applies to statements without parameters",
+			);
+		});
+
+		it("should reject an invalid statementCacheSize", () => {
+			expect(() =>
+				new BunSQLDialect({
+					database: DATABASE_URLS[adapter],
+					statementCacheSize: 0,
+				}).createDriver(),
+			).toThrow("statementCacheSize must be a positive integer");
+		});
+	});
+}
+
+describe("PostgreSQL global prepare option", () => {
+	let db: Kysely<unknown> | undefined;
+
+	afterEach(async () => {
+		await db?.destroy();
+		db = undefined;
+	});
+
+	it("should not prepare statements on instances it creates", async () => {
+		const dialect = new BunSQLDialect({
+			database: DATABASE_URLS.postgres,
+			prepare: false,
+			statementCacheSize: 10,
+		});
+		db = new Kysely<unknown>({ dialect });
+
+		const { rows } = await sql<{
+			value: number;
+		}>`select ${1} as value`.execute(db);
+
+		expect(Number(rows[0]?.value)).toBe(1);
+		expect(dialect.getStats().preparedStatementCacheMisses).toBe(0);
+	});
+
+	it("should reject a ready-made instance preparing otherwise", async () => {
+		const database = new SQL(DATABASE_URLS.postgres, { prepare: false });
+		db = new Kysely<unknown>({
+			dialect: new BunSQLDialect({ database, prepare: true }),
+		});
+
+		const error = await sql`select 1`.execute(db).catch((e) => e);
+
+		expect(error.message).toBe(
+			"BunSQLOptions.prepare is true but the SQL instance was created with prepare: false",
+		);
+		await database.close();
+	});
+});
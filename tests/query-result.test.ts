@@ -0,0 +1,205 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+} from "bun:test";
+import type { Generated } from "kysely";
+import { Kysely } from "kysely";
+import { BunSQLDialect } from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+interface Database {
+	result_users: {
+		id: Generated<number>;
+		name: string;
+		email: string;
+	};
+}
+
+function createDatabase(adapter: TestAdapter): Kysely<Database> {
+	return new Kysely<Database>({
+		dialect: new BunSQLDialect({ database: createSQL(adapter) }),
+	});
+}
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} query results`, () => {
+		let db: Kysely<Database>;
+
+		beforeAll(async () => {
+			db = createDatabase(adapter);
+
+			await db.schema.dropTable("result_users").ifExists().execute();
+			await db.schema
+				.createTable("result_users")
+				.addColumn(
+					"id",
+					adapter === "postgres" ? "serial" : "integer",
+					(col) =>
+						adapter === "mysql"
+							? col.primaryKey().autoIncrement()
+							: col.primaryKey(),
+				)
+				.addColumn("name", "varchar(255)", (col) => col.notNull())
+				.addColumn("email", "varchar(255)", (col) => col.notNull().unique())
+				.execute();
+		});
+
+		beforeEach(async () => {
+			await db.deleteFrom("result_users").execute();
+		});
+
+		afterAll(async () => {
+			await db.destroy();
+		});
+
+		it("should report inserted rows", async () => {
+			const result = await db
+				.insertInto("result_users")
+				.values([
+					{ name: "Alice", email: "alice@example.com" },
+					{ name: "Bob", email: "bob@example.com" },
+				])
+				.executeTakeFirstOrThrow();
+
+			expect(result.numInsertedOrUpdatedRows).toBe(2n);
+
+			if (adapter === "postgres") {
+				expect(result.insertId).toBeUndefined();
+			} else {
+				expect(result.insertId).toBeGreaterThan(0n);
+			}
+		});
+
+		// Postgres has no insert id, RETURNING covers that case
+		it.skipIf(adapter === "postgres")(
+			"should report the insert id of a single row",
+			async () => {
+				const result = await db
+					.insertInto("result_users")
+					.values({ name: "Carol", email: "carol@example.com" })
+					.executeTakeFirstOrThrow();
+
+				const row = await db
+					.selectFrom("result_users")
+					.select("id")
+					.where("email", "=", "carol@example.com")
+					.executeTakeFirstOrThrow();
+
+				expect(result.insertId).toBe(BigInt(row.id));
+			},
+		);
+
+		it("should report updated rows", async () => {
+			await db
+				.insertInto("result_users")
+				.values([
+					{ name: "Alice", email: "alice@example.com" },
+					{ name: "Bob", email: "bob@example.com" },
+					{ name: "Carol", email: "carol@example.com" },
+				])
+				.execute();
+
+			const result = await db
+				.updateTable("result_users")
+				.set({ name: "Updated" })
+				.where("email", "in", ["alice@example.com", "bob@example.com"])
+				.executeTakeFirstOrThrow();
+
+			expect(result.numUpdatedRows).toBe(2n);
+			expect(result.numChangedRows).toBeUndefined();
+		});
+
+		it("should not report changed rows for an update to the same values", async () => {
+			await db
+				.insertInto("result_users")
+				.values({ name: "Alice", email: "alice@example.com" })
+				.execute();
+
+			const result = await db
+				.updateTable("result_users")
+				.set({ name: "Alice" })
+				.where("email", "=", "alice@example.com")
+				.executeTakeFirstOrThrow();
+
+			// Bun does not tell MySQL's matched and changed rows apart
+			expect(result.numChangedRows).toBeUndefined();
+
+			if (adapter !== "mysql") {
+				expect(result.numUpdatedRows).toBe(1n);
+			}
+		});
+
+		it("should report zero rows for a no-op update", async () => {
+			const result = await db
+				.updateTable("result_users")
+				.set({ name: "Nobody" })
+				.where("email", "=", "missing@example.com")
+				.executeTakeFirstOrThrow();
+
+			expect(result.numUpdatedRows).toBe(0n);
+		});
+
+		it("should report deleted rows", async () => {
+			await db
+				.insertInto("result_users")
+				.values([
+					{ name: "Alice", email: "alice@example.com" },
+					{ name: "Bob", email: "bob@example.com" },
+				])
+				.execute();
+
+			const result = await db
+				.deleteFrom("result_users")
+				.where("email", "=", "alice@example.com")
+				.executeTakeFirstOrThrow();
+
+			expect(result.numDeletedRows).toBe(1n);
+		});
+
+		it("should report upserted rows", async () => {
+			await db
+				.insertInto("result_users")
+				.values({ name: "Alice", email: "alice@example.com" })
+				.execute();
+
+			const query = db
+				.insertInto("result_users")
+				.values({ name: "Alice Updated", email: "alice@example.com" });
+
+			const result = await (adapter === "mysql"
+				? query.onDuplicateKeyUpdate({ name: "Alice Updated" })
+				: query.onConflict((oc) =>
+						oc.column("email").doUpdateSet({ name: "Alice Updated" }),
+					)
+			).executeTakeFirstOrThrow();
+
+			// MySQL counts an upsert that updates an existing row as two affected rows
+			expect(result.numInsertedOrUpdatedRows).toBe(
+				adapter === "mysql" ? 2n : 1n,
+			);
+
+			const row = await db
+				.selectFrom("result_users")
+				.select("name")
+				.where("email", "=", "alice@example.com")
+				.executeTakeFirstOrThrow();
+
+			expect(row.name).toBe("Alice Updated");
+		});
+
+		it("should not report counts for selects", async () => {
+			const result = await db.executeQuery(
+				db.selectFrom("result_users").selectAll(),
+			);
+
+			expect(result.rows).toEqual([]);
+			expect(result.numAffectedRows).toBeUndefined();
+			expect(result.numChangedRows).toBeUndefined();
+			expect(result.insertId).toBeUndefined();
+		});
+	});
+}
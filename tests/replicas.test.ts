@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { SQL } from "bun";
+import { CompiledQuery, Kysely, sql } from "kysely";
+import { BunSQLDialect, type ReplicaStrategy, withQueryOptions } from "../src";
+import { isReadOnlyQuery, ReplicaRouter } from "../src/replicas";
+
+interface Database {
+	whoami: {
+		name: string;
+	};
+}
+
+// Separate in-memory SQLite databases stand in for the primary and replicas,
+// each answering `whoami` with its own name
+async function createNode(name: string): Promise<SQL> {
+	const node = new SQL(":memory:");
+	await node`create table whoami (name text)`;
+	await node`insert into whoami (name) values (${name})`;
+	return node;
+}
+
+describe("isReadOnlyQuery", () => {
+	const db = new Kysely<Database>({
+		dialect: new BunSQLDialect({ database: new SQL(":memory:") }),
+	});
+
+	it("should accept plain selects", () => {
+		expect(isReadOnlyQuery(db.selectFrom("whoami").selectAll().compile())).toBe(
+			true,
+		);
+		expect(
+			isReadOnlyQuery(
+				db
+					.with("names", (qb) => qb.selectFrom("whoami").select("name"))
+					.selectFrom("names")
+					.selectAll()
+					.compile(),
+			),
+		).toBe(true);
+		expect(isReadOnlyQuery(CompiledQuery.raw("select 1"), true)).toBe(true);
+	});
+
+	it("should only accept raw selects when allowed", () => {
+		expect(isReadOnlyQuery(CompiledQuery.raw("select 1"))).toBe(false);
+	});
+
+	it("should reject functions with side effects", () => {
+		for (const text of [
+			"select setval('users_id_seq', 1)",
+			"select pg_notify('channel', 'payload')",
+			"select pg_advisory_lock(1)",
+			"select set_config('search_path', 'app', false)",
+		]) {
+			expect(isReadOnlyQuery(CompiledQuery.raw(text), true)).toBe(false);
+		}
+
+		expect(
+			isReadOnlyQuery(
+				db
+					.selectNoFrom((eb) =>
+						eb.fn<number>("pg_advisory_lock", [eb.lit(1)]).as("locked"),
+					)
+					.compile(),
+			),
+		).toBe(false);
+	});
+
+	it("should reject writes and locking selects", () => {
+		expect(
+			isReadOnlyQuery(db.insertInto("whoami").values({ name: "x" }).compile()),
+		).toBe(false);
+		expect(
+			isReadOnlyQuery(
+				db.selectFrom("whoami").selectAll().forUpdate().compile(),
+			),
+		).toBe(false);
+		expect(
+			isReadOnlyQuery(
+				CompiledQuery.raw("select * from whoami lock in share mode"),
+			),
+		).toBe(false);
+		expect(
+			isReadOnlyQuery(
+				CompiledQuery.raw(
+					"with moved as (delete from whoami returning *) select * from moved",
+				),
+			),
+		).toBe(false);
+		expect(isReadOnlyQuery(CompiledQuery.raw("begin"))).toBe(false);
+	});
+});
+
+describe("ReplicaRouter", () => {
+	it("should cycle through replicas with round-robin", async () => {
+		const replicas = [new SQL(":memory:"), new SQL(":memory:")];
+		const router = new ReplicaRouter(replicas, "round-robin");
+		const picked: SQL[] = [];
+
+		for (let i = 0; i < 4; i++) {
+			await router.run(async (replica) => picked.push(replica));
+		}
+
+		expect(picked).toEqual([
+			replicas[0],
+			replicas[1],
+			replicas[0],
+			replicas[1],
+		] as SQL[]);
+	});
+
+	it("should pick the replica with the fewest queries in flight", async () => {
+		const replicas = [new SQL(":memory:"), new SQL(":memory:")];
+		const router = new ReplicaRouter(replicas, "least-busy");
+		let finish!: () => void;
+		const blocked = new Promise<void>((resolve) => {
+			finish = resolve;
+		});
+
+		const busy = router.run(() => blocked);
+		const picked = await router.run(async (replica) => replica);
+
+		expect(picked).toBe(replicas[1] as SQL);
+
+		finish();
+		await busy;
+	});
+});
+
+for (const strategy of ["round-robin", "least-busy"] as ReplicaStrategy[]) {
+	describe(`BunSQLDialect replicas (${strategy})`, () => {
+		let db: Kysely<Database>;
+
+		async function whoami(kysely: Kysely<Database> = db) {
+			const row = await kysely
+				.selectFrom("whoami")
+				.select("name")
+				.executeTakeFirstOrThrow();
+			return row.name;
+		}
+
+		beforeEach(async () => {
+			db = new Kysely<Database>({
+				dialect: new BunSQLDialect({
+					database: await createNode("primary"),
+					replicas: [
+						await createNode("replica 1"),
+						await createNode("replica 2"),
+					],
+					replicaStrategy: strategy,
+					ownsDatabase: true,
+				}),
+			});
+		});
+
+		afterEach(async () => {
+			await db.destroy();
+		});
+
+		it("should send plain selects to replicas", async () => {
+			const names = new Set<string>();
+
+			for (let i = 0; i < 4; i++) {
+				names.add(await whoami());
+			}
+
+			expect(names.has("primary")).toBe(false);
+			if (strategy === "round-robin") {
+				expect([...names].sort()).toEqual(["replica 1", "replica 2"]);
+			}
+		});
+
+		it("should keep writes on the primary", async () => {
+			await db.updateTable("whoami").set({ name: "updated" }).execute();
+
+			const primary = await withQueryOptions({ primary: true }, () => whoami());
+			expect(primary).toBe("updated");
+			expect(await whoami()).toStartWith("replica");
+		});
+
+		it("should keep transactions on the primary", async () => {
+			const name = await db
+				.transaction()
+				.execute((trx) =>
+					trx.selectFrom("whoami").select("name").executeTakeFirstOrThrow(),
+				);
+
+			expect(name.name).toBe("primary");
+		});
+
+		it("should keep raw selects on the primary unless allowed", async () => {
+			const query = sql<{ name: string }>`select name from whoami`;
+
+			expect((await query.execute(db)).rows[0]?.name).toBe("primary");
+
+			const { rows } = await withQueryOptions({ replica: true }, () =>
+				query.execute(db),
+			);
+			expect(rows[0]?.name).toStartWith("replica");
+		});
+
+		it("should keep a used connection on the primary", async () => {
+			const names = await db.connection().execute(async (conn) => {
+				const first = await whoami(conn);
+				await conn.updateTable("whoami").set({ name: "pinned" }).execute();
+				return [first, await whoami(conn)];
+			});
+
+			expect(names[0]).toStartWith("replica");
+			expect(names[1]).toBe("pinned");
+		});
+
+		it("should keep reads on the primary with connection hooks", async () => {
+			const hooked = new Kysely<Database>({
+				dialect: new BunSQLDialect({
+					database: await createNode("primary"),
+					replicas: [await createNode("replica 1")],
+					replicaStrategy: strategy,
+					ownsDatabase: true,
+					onReserveConnection: async () => {},
+				}),
+			});
+
+			expect(await whoami(hooked)).toBe("primary");
+			await hooked.destroy();
+		});
+
+		it("should keep raw writes on the primary", async () => {
+			await sql`update whoami set name = ${"raw"}`.execute(db);
+
+			const result = await withQueryOptions({ primary: true }, () =>
+				sql<{ name: string }>`select name from whoami`.execute(db),
+			);
+			expect(result.rows[0]?.name).toBe("raw");
+		});
+	});
+}
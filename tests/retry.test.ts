@@ -0,0 +1,331 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+} from "bun:test";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SQL } from "bun";
+import { Kysely, sql } from "kysely";
+import {
+	BunSQLDialect,
+	isTransientError,
+	retryTransaction,
+	TransactionRetryError,
+	type TransactionRetryEvent,
+	UniqueViolationError,
+} from "../src";
+import { toBunSQLQueryError } from "../src/errors";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+interface Database {
+	retry_items: {
+		id: number;
+	};
+}
+
+// A raw Bun error carrying each adapter's transient error code
+const TRANSIENT_ERRORS: Record<TestAdapter, object> = {
+	postgres: {
+		message: "could not serialize access",
+		code: "ERR_POSTGRES_SERVER_ERROR",
+		errno: "40001",
+	},
+	mysql: {
+		message: "Deadlock found when trying to get lock",
+		code: "ER_LOCK_DEADLOCK",
+		errno: 1213,
+	},
+	sqlite: { message: "database is locked", code: "SQLITE_BUSY", errno: 5 },
+};
+
+describe("isTransientError", () => {
+	it("should recognize each adapter's transient codes", () => {
+		expect(
+			isTransientError(
+				toBunSQLQueryError(TRANSIENT_ERRORS.postgres, "postgres"),
+			),
+		).toBe(true);
+		expect(
+			isTransientError(
+				toBunSQLQueryError(
+					{ message: "deadlock detected", errno: "40P01" },
+					"postgres",
+				),
+			),
+		).toBe(true);
+		expect(
+			isTransientError(toBunSQLQueryError(TRANSIENT_ERRORS.mysql, "mysql")),
+		).toBe(true);
+		expect(
+			isTransientError(toBunSQLQueryError(TRANSIENT_ERRORS.sqlite, "sqlite")),
+		).toBe(true);
+		expect(
+			isTransientError(
+				toBunSQLQueryError(
+					{ message: "database is locked", code: "SQLITE_BUSY_TIMEOUT" },
+					"sqlite",
+				),
+			),
+		).toBe(true);
+	});
+
+	it("should reject other errors", () => {
+		expect(
+			isTransientError(
+				toBunSQLQueryError(
+					{ message: "duplicate key", errno: "23505" },
+					"postgres",
+				),
+			),
+		).toBe(false);
+		expect(isTransientError(new Error("database is locked"))).toBe(false);
+		expect(isTransientError("40001")).toBe(false);
+	});
+
+	it("should look through wrapped errors", () => {
+		const cause = toBunSQLQueryError(TRANSIENT_ERRORS.mysql, "mysql");
+
+		expect(isTransientError(new Error("checkout failed", { cause }))).toBe(
+			true,
+		);
+	});
+});
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} retryTransaction`, () => {
+		let db: Kysely<Database>;
+
+		// Fails the first `failures` attempts after writing a row, like a
+		// conflicting transaction would
+		function flakyCallback(failures: number) {
+			let calls = 0;
+
+			return async (trx: Kysely<Database>) => {
+				calls++;
+				await trx.insertInto("retry_items").values({ id: calls }).execute();
+
+				if (calls <= failures) {
+					throw toBunSQLQueryError(TRANSIENT_ERRORS[adapter], adapter);
+				}
+
+				return calls;
+			};
+		}
+
+		async function countRows() {
+			const rows = await db.selectFrom("retry_items").selectAll().execute();
+			return rows.length;
+		}
+
+		beforeAll(async () => {
+			db = new Kysely<Database>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+				}),
+			});
+
+			await db.schema.dropTable("retry_items").ifExists().execute();
+			await db.schema
+				.createTable("retry_items")
+				.addColumn("id", "integer", (col) => col.primaryKey())
+				.execute();
+		});
+
+		beforeEach(async () => {
+			await db.deleteFrom("retry_items").execute();
+		});
+
+		afterAll(async () => {
+			await db.schema.dropTable("retry_items").ifExists().execute();
+			await db.destroy();
+		});
+
+		it("should retry the whole transaction on transient errors", async () => {
+			const { result, attempts } = await retryTransaction(
+				db,
+				flakyCallback(2),
+				{ initialDelayMs: 1 },
+			);
+
+			expect(result).toBe(3);
+			expect(attempts).toBe(3);
+			// The failed attempts were rolled back
+			expect(await countRows()).toBe(1);
+		});
+
+		it("should report a single attempt when nothing fails", async () => {
+			const { attempts } = await retryTransaction(db, flakyCallback(0));
+
+			expect(attempts).toBe(1);
+		});
+
+		it("should back off exponentially up to the maximum delay", async () => {
+			const retries: TransactionRetryEvent[] = [];
+
+			await retryTransaction(db.transaction(), flakyCallback(4), {
+				initialDelayMs: 2,
+				maxDelayMs: 10,
+				jitter: false,
+				onRetry: (event) => retries.push(event),
+			});
+
+			expect(retries.map((event) => event.attempt)).toEqual([1, 2, 3, 4]);
+			expect(retries.map((event) => event.delayMs)).toEqual([2, 4, 8, 10]);
+			expect(retries.every((event) => isTransientError(event.error))).toBe(
+				true,
+			);
+		});
+
+		it("should keep jittered delays below the backoff", async () => {
+			const retries: TransactionRetryEvent[] = [];
+
+			await retryTransaction(db, flakyCallback(3), {
+				initialDelayMs: 4,
+				onRetry: (event) => retries.push(event),
+			});
+
+			retries.forEach((event, index) => {
+				expect(event.delayMs).toBeGreaterThanOrEqual(0);
+				expect(event.delayMs).toBeLessThanOrEqual(4 * 2 ** index);
+			});
+		});
+
+		it("should give up after maxAttempts", async () => {
+			const error = await retryTransaction(db, flakyCallback(10), {
+				maxAttempts: 3,
+				initialDelayMs: 1,
+			}).catch((e) => e);
+
+			expect(error).toBeInstanceOf(TransactionRetryError);
+			expect(error.attempts).toBe(3);
+			expect(isTransientError(error.cause)).toBe(true);
+			expect(await countRows()).toBe(0);
+		});
+
+		it("should not retry other errors", async () => {
+			let calls = 0;
+
+			const error = await retryTransaction(db, async (trx) => {
+				calls++;
+				await trx.insertInto("retry_items").values({ id: 1 }).execute();
+				await trx.insertInto("retry_items").values({ id: 1 }).execute();
+			}).catch((e) => e);
+
+			expect(error).toBeInstanceOf(UniqueViolationError);
+			expect(calls).toBe(1);
+		});
+
+		it("should reject invalid maxAttempts", async () => {
+			const error = await retryTransaction(db, flakyCallback(0), {
+				maxAttempts: 0,
+			}).catch((e) => e);
+
+			expect(error.message).toBe("maxAttempts must be a positive integer");
+		});
+	});
+}
+
+describe("SQLite retryTransaction with a locked database", () => {
+	const filename = join(tmpdir(), `kysely-bun-sql-retry-${process.pid}.db`);
+	let other: SQL;
+	let db: Kysely<Database>;
+
+	beforeAll(async () => {
+		other = new SQL({ adapter: "sqlite", filename });
+		await other.unsafe("create table retry_items (id integer primary key)");
+
+		db = new Kysely<Database>({
+			dialect: new BunSQLDialect({
+				database: { adapter: "sqlite", filename },
+				sqliteTransactionMode: "immediate",
+			}),
+		});
+	});
+
+	afterAll(async () => {
+		await db.destroy();
+		await other.close();
+		await rm(filename, { force: true });
+	});
+
+	it("should retry on SQLITE_BUSY until the lock is released", async () => {
+		// Another connection holds the write lock for a while
+		await other.unsafe("begin immediate");
+		// Bun only sends a query once it is awaited
+		setTimeout(async () => {
+			await other.unsafe("commit");
+		}, 50);
+
+		const { attempts } = await retryTransaction(
+			db,
+			(trx) => trx.insertInto("retry_items").values({ id: 1 }).execute(),
+			{ maxAttempts: 20, initialDelayMs: 5, maxDelayMs: 20 },
+		);
+
+		expect(attempts).toBeGreaterThan(1);
+		expect(
+			await db.selectFrom("retry_items").selectAll().execute(),
+		).toHaveLength(1);
+	});
+});
+
+describe("PostgreSQL retryTransaction with serializable conflicts", () => {
+	let db: Kysely<Database>;
+
+	beforeAll(async () => {
+		db = new Kysely<Database>({
+			dialect: new BunSQLDialect({
+				database: createSQL("postgres"),
+				ownsDatabase: true,
+			}),
+		});
+
+		await db.schema.dropTable("retry_items").ifExists().execute();
+		await db.schema
+			.createTable("retry_items")
+			.addColumn("id", "integer", (col) => col.primaryKey())
+			.execute();
+	});
+
+	afterAll(async () => {
+		await db.schema.dropTable("retry_items").ifExists().execute();
+		await db.destroy();
+	});
+
+	it("should resolve real serialization failures", async () => {
+		// Each transaction inserts max(id) + 1, which conflicts under
+		// serializable isolation when they overlap
+		const results = await Promise.all(
+			Array.from({ length: 5 }, () =>
+				retryTransaction(
+					db.transaction().setIsolationLevel("serializable"),
+					async (trx) => {
+						const { max } = await trx
+							.selectFrom("retry_items")
+							.select(sql<number>`coalesce(max(id), 0)`.as("max"))
+							.executeTakeFirstOrThrow();
+						await Bun.sleep(10);
+						await trx
+							.insertInto("retry_items")
+							.values({ id: Number(max) + 1 })
+							.execute();
+					},
+					{ maxAttempts: 20 },
+				),
+			),
+		);
+
+		const rows = await db.selectFrom("retry_items").selectAll().execute();
+
+		expect(rows).toHaveLength(5);
+		expect(
+			results.reduce((total, { attempts }) => total + attempts, 0),
+		).toBeGreaterThan(5);
+	});
+});
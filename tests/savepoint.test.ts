@@ -0,0 +1,130 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+} from "bun:test";
+import { Kysely } from "kysely";
+import { BunSQLDialect } from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+interface Database {
+	savepoint_items: {
+		name: string;
+	};
+}
+
+function createDatabase(adapter: TestAdapter): Kysely<Database> {
+	return new Kysely<Database>({
+		dialect: new BunSQLDialect({ database: createSQL(adapter) }),
+	});
+}
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} savepoints`, () => {
+		let db: Kysely<Database>;
+
+		async function names() {
+			const rows = await db
+				.selectFrom("savepoint_items")
+				.select("name")
+				.orderBy("name")
+				.execute();
+
+			return rows.map((row) => row.name);
+		}
+
+		beforeAll(async () => {
+			db = createDatabase(adapter);
+
+			await db.schema.dropTable("savepoint_items").ifExists().execute();
+			await db.schema
+				.createTable("savepoint_items")
+				.addColumn("name", "varchar(255)", (col) => col.notNull())
+				.execute();
+		});
+
+		beforeEach(async () => {
+			await db.deleteFrom("savepoint_items").execute();
+		});
+
+		afterAll(async () => {
+			await db.destroy();
+		});
+
+		it("should roll back to a savepoint and keep earlier work", async () => {
+			const trx = await db.startTransaction().execute();
+
+			await trx.insertInto("savepoint_items").values({ name: "a" }).execute();
+
+			const sp = await trx.savepoint("sp1").execute();
+			await sp.insertInto("savepoint_items").values({ name: "b" }).execute();
+			const rolledBack = await sp.rollbackToSavepoint("sp1").execute();
+
+			await rolledBack
+				.insertInto("savepoint_items")
+				.values({ name: "c" })
+				.execute();
+			await rolledBack.commit().execute();
+
+			expect(await names()).toEqual(["a", "c"]);
+		});
+
+		it("should release a savepoint and commit its work", async () => {
+			const trx = await db.startTransaction().execute();
+
+			const sp = await trx.savepoint("sp1").execute();
+			await sp.insertInto("savepoint_items").values({ name: "a" }).execute();
+			const released = await sp.releaseSavepoint("sp1").execute();
+
+			await released.commit().execute();
+
+			expect(await names()).toEqual(["a"]);
+		});
+
+		it("should support nested savepoints", async () => {
+			const trx = await db.startTransaction().execute();
+
+			const outer = await trx.savepoint("outer").execute();
+			await outer.insertInto("savepoint_items").values({ name: "a" }).execute();
+
+			const inner = await outer.savepoint("inner").execute();
+			await inner.insertInto("savepoint_items").values({ name: "b" }).execute();
+
+			const afterInner = await inner.rollbackToSavepoint("inner").execute();
+			const afterOuter = await afterInner.releaseSavepoint("outer").execute();
+
+			await afterOuter.commit().execute();
+
+			expect(await names()).toEqual(["a"]);
+		});
+
+		it("should discard savepoint work when the transaction rolls back", async () => {
+			const trx = await db.startTransaction().execute();
+
+			const sp = await trx.savepoint("sp1").execute();
+			await sp.insertInto("savepoint_items").values({ name: "a" }).execute();
+			const released = await sp.releaseSavepoint("sp1").execute();
+
+			await released.rollback().execute();
+
+			expect(await names()).toEqual([]);
+		});
+
+		it("should quote savepoint names", async () => {
+			const trx = await db.startTransaction().execute();
+
+			const sp = await trx.savepoint("needs quoting-1").execute();
+			await sp.insertInto("savepoint_items").values({ name: "a" }).execute();
+			const rolledBack = await sp
+				.rollbackToSavepoint("needs quoting-1")
+				.execute();
+
+			await rolledBack.commit().execute();
+
+			expect(await names()).toEqual([]);
+		});
+	});
+}
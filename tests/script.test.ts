@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Kysely } from "kysely";
+import { BunSQLDialect, executeScript, ScriptError } from "../src";
+import { splitScript } from "../src/script";
+import { ADAPTER_NAMES, ADAPTERS, createSQL } from "./utils";
+
+interface Database {
+	script_items: {
+		id: number;
+		name: string;
+	};
+}
+
+describe("splitScript", () => {
+	it("should split statements and report their lines", () => {
+		const statements = splitScript(
+			[
+				"-- bootstrap",
+				"create table a (id int);",
+				"",
+				"insert into a values (1);   insert into a values (2)",
+			].join("\n"),
+		);
+
+		expect(statements).toEqual([
+			{ sql: "create table a (id int)", line: 2 },
+			{ sql: "insert into a values (1)", line: 4 },
+			{ sql: "insert into a values (2)", line: 4 },
+		]);
+	});
+
+	it("should ignore semicolons in strings, identifiers and comments", () => {
+		const statements = splitScript(
+			[
+				"insert into \"a;b\" values ('x;''y');",
+				"/* skip; /* nested; */ still; */ select 1;",
+				"select 2 -- trailing; comment",
+			].join("\n"),
+		);
+
+		expect(statements.map((statement) => statement.sql)).toEqual([
+			"insert into \"a;b\" values ('x;''y')",
+			// Comments before a statement are not part of it
+			"select 1",
+			"select 2 -- trailing; comment",
+		]);
+	});
+
+	it("should keep PostgreSQL dollar-quoted bodies together", () => {
+		const statements = splitScript(
+			[
+				"create function f() returns int as $body$",
+				"begin return 1; end;",
+				"$body$ language plpgsql;",
+				"do $$ begin perform 1; end $$;",
+				"select $1::int",
+			].join("\n"),
+		);
+
+		expect(statements).toHaveLength(3);
+		expect(statements[0]?.sql).toEndWith("$body$ language plpgsql");
+		expect(statements[1]).toEqual({
+			sql: "do $$ begin perform 1; end $$",
+			line: 4,
+		});
+	});
+
+	it("should keep SQLite trigger bodies together", () => {
+		const statements = splitScript(
+			[
+				"create temp trigger t after insert on a begin",
+				"  update a set n = case when n > 0 then n end;",
+				"  delete from b;",
+				"end;",
+				"select 1;",
+			].join("\n"),
+			"sqlite",
+		);
+
+		expect(statements).toHaveLength(2);
+		expect(statements[0]?.sql).toEndWith("delete from b;\nend");
+		expect(statements[1]).toEqual({ sql: "select 1", line: 5 });
+	});
+
+	it("should keep MySQL routine bodies together", () => {
+		const statements = splitScript(
+			[
+				"create definer = current_user procedure fill(n int)",
+				"begin",
+				"  declare i int default 0;",
+				"  drop table if exists t;",
+				"  lbl: while i < n do",
+				"    if i % 2 = 0 then",
+				"      insert into a values (if(i > 1, i, repeat('x', 2)));",
+				"    end if;",
+				"    set i = case when i > 9 then n else i + 1 end;",
+				"  end while lbl;",
+				"end;",
+				"create trigger t before insert on a for each row",
+				"begin set new.n = 1; end;",
+				"select 1;",
+			].join("\n"),
+			"mysql",
+		);
+
+		expect(statements.map((statement) => statement.line)).toEqual([1, 12, 14]);
+		expect(statements[0]?.sql).toEndWith("end while lbl;\nend");
+		expect(statements[1]?.sql).toEndWith("begin set new.n = 1; end");
+	});
+
+	it("should keep PostgreSQL begin atomic bodies together", () => {
+		const statements = splitScript(
+			[
+				"create function f() returns int language sql",
+				"begin atomic",
+				"  select case when true then 1 end;",
+				"  select 2;",
+				"end;",
+				"begin;",
+				"select 1;",
+			].join("\n"),
+		);
+
+		expect(statements.map((statement) => statement.sql)).toEqual([
+			"create function f() returns int language sql\nbegin atomic\n  select case when true then 1 end;\n  select 2;\nend",
+			"begin",
+			"select 1",
+		]);
+	});
+
+	it("should handle MySQL comments and backslash escapes", () => {
+		const statements = splitScript(
+			"# setup; comment\ninsert into a values ('it\\'s;');\nselect `x;y` from a",
+			"mysql",
+		);
+
+		expect(statements).toEqual([
+			{ sql: "insert into a values ('it\\'s;')", line: 2 },
+			{ sql: "select `x;y` from a", line: 3 },
+		]);
+	});
+
+	it("should drop empty and comment-only statements", () => {
+		expect(splitScript(";;\n-- nothing\n/* here */;")).toEqual([]);
+	});
+});
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} executeScript`, () => {
+		let db: Kysely<Database>;
+
+		beforeEach(async () => {
+			db = new Kysely<Database>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+				}),
+			});
+
+			await db.schema.dropTable("script_items").ifExists().execute();
+		});
+
+		afterEach(async () => {
+			await db.schema.dropTable("script_items").ifExists().execute();
+			await db.destroy();
+		});
+
+		it("should run every statement in order", async () => {
+			const results = await executeScript(
+				db,
+				`
+				-- schema
+				create table script_items (id integer primary key, name varchar(50));
+				insert into script_items values (1, 'a;b');
+				insert into script_items values (2, 'c');
+				select count(*) as total from script_items;
+				`,
+			);
+
+			expect(results).toHaveLength(4);
+			expect(Number(Object.values(results[3]?.rows[0] ?? {})[0])).toBe(2);
+			expect(
+				await db
+					.selectFrom("script_items")
+					.select("name")
+					.orderBy("id")
+					.execute(),
+			).toEqual([{ name: "a;b" }, { name: "c" }]);
+		});
+
+		it("should report the failing statement and its line", async () => {
+			const error = await executeScript(
+				db,
+				[
+					"create table script_items (id integer primary key, name varchar(50));",
+					"insert into script_items values (1, 'a');",
+					"",
+					"insert into missing_table values (1);",
+					"insert into script_items values (2, 'b');",
+				].join("\n"),
+			).catch((e) => e);
+
+			expect(error).toBeInstanceOf(ScriptError);
+			expect(error.statement).toBe(3);
+			expect(error.line).toBe(4);
+			expect(error.sql).toBe("insert into missing_table values (1)");
+			expect(error.message).toStartWith(
+				"Statement 3 of the script (line 4) failed:",
+			);
+			// Statements before the failure stay applied without a transaction
+			expect(
+				await db.selectFrom("script_items").selectAll().execute(),
+			).toHaveLength(1);
+		});
+
+		it("should roll back everything in a transaction", async () => {
+			await db.schema
+				.createTable("script_items")
+				.addColumn("id", "integer", (col) => col.primaryKey())
+				.addColumn("name", "varchar(50)")
+				.execute();
+
+			const error = await executeScript(
+				db,
+				`insert into script_items values (1, 'a');
+				insert into script_items values (1, 'duplicate');`,
+				{ transaction: true },
+			).catch((e) => e);
+
+			expect(error).toBeInstanceOf(ScriptError);
+			expect(error.statement).toBe(2);
+			expect(
+				await db.selectFrom("script_items").selectAll().execute(),
+			).toHaveLength(0);
+		});
+
+		it("should join an open transaction", async () => {
+			await db.transaction().execute(async (trx) => {
+				await executeScript(
+					trx,
+					`create table script_items (id integer primary key, name varchar(50));
+					insert into script_items values (1, 'a');`,
+					{ transaction: true },
+				);
+			});
+
+			expect(
+				await db.selectFrom("script_items").selectAll().execute(),
+			).toHaveLength(1);
+		});
+	});
+}
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { Kysely, sql } from "kysely";
+import { BunSQLDialect, type BunSQLStats, formatPrometheusStats } from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL } from "./utils";
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} driver stats`, () => {
+		let dialect: BunSQLDialect;
+		let db: Kysely<unknown> | undefined;
+
+		function createDatabase(): Kysely<unknown> {
+			dialect = new BunSQLDialect({
+				database: createSQL(adapter),
+				ownsDatabase: true,
+			});
+			db = new Kysely<unknown>({ dialect });
+			return db;
+		}
+
+		afterEach(async () => {
+			await db?.destroy();
+			db = undefined;
+		});
+
+		it("should report zeros before any query", () => {
+			createDatabase();
+
+			const stats = dialect.getStats();
+
+			expect(stats.reservedConnections).toBe(0);
+			expect(stats.queriesExecuted).toBe(0);
+			expect(stats.connectionWaitTimeMs.samples).toBe(0);
+			expect(stats.connectionWaitTimeMs.p99).toBe(0);
+		});
+
+		it("should count queries and failures", async () => {
+			const kysely = createDatabase();
+
+			await sql`select 1`.execute(kysely);
+			await sql`select 2`.execute(kysely);
+			await sql`selec 3`.execute(kysely).catch(() => {});
+
+			const stats = dialect.getStats();
+
+			expect(stats.queriesExecuted).toBe(3);
+			expect(stats.queryFailures).toBe(1);
+			expect(stats.connectionsAcquired).toBe(3);
+			expect(stats.reservedConnections).toBe(0);
+		});
+
+		it("should track reservations and open transactions", async () => {
+			const kysely = createDatabase();
+			let during: BunSQLStats | undefined;
+
+			await kysely.transaction().execute(async (trx) => {
+				await sql`select 1`.execute(trx);
+				during = dialect.getStats();
+			});
+			await kysely
+				.transaction()
+				.execute(async () => {
+					throw new Error("abort");
+				})
+				.catch(() => {});
+
+			expect(during?.reservedConnections).toBe(1);
+			expect(during?.openTransactions).toBe(1);
+
+			const after = dialect.getStats();
+
+			expect(after.reservedConnections).toBe(0);
+			expect(after.peakReservedConnections).toBe(1);
+			expect(after.openTransactions).toBe(0);
+			expect(after.transactionsCommitted).toBe(1);
+			expect(after.transactionsRolledBack).toBe(1);
+		});
+
+		it("should record connection wait times", async () => {
+			const kysely = createDatabase();
+
+			await Promise.all(
+				Array.from({ length: 20 }, () =>
+					kysely.transaction().execute((trx) => sql`select 1`.execute(trx)),
+				),
+			);
+
+			const { connectionWaitTimeMs: wait, peakReservedConnections } =
+				dialect.getStats();
+
+			expect(wait.samples).toBe(20);
+			expect(wait.p50).toBeLessThanOrEqual(wait.p90);
+			expect(wait.p90).toBeLessThanOrEqual(wait.p99);
+			expect(wait.p99).toBeLessThanOrEqual(wait.max);
+			expect(wait.sum).toBeGreaterThanOrEqual(wait.max);
+			// SQLite hands out its single connection to one transaction at a time
+			if (adapter === "sqlite") {
+				expect(peakReservedConnections).toBe(1);
+			} else {
+				expect(peakReservedConnections).toBeGreaterThan(1);
+			}
+		});
+
+		it("should reset gauges on destroy", async () => {
+			const kysely = createDatabase();
+
+			await sql`select 1`.execute(kysely);
+			await kysely.destroy();
+			db = undefined;
+
+			expect(dialect.getStats().reservedConnections).toBe(0);
+			expect(dialect.getStats().queriesExecuted).toBe(1);
+		});
+	});
+}
+
+describe("formatPrometheusStats", () => {
+	const stats: BunSQLStats = {
+		reservedConnections: 3,
+		peakReservedConnections: 8,
+		connectionWaitTimeMs: {
+			samples: 4,
+			p50: 2,
+			p90: 15,
+			p99: 40,
+			max: 40,
+			sum: 60,
+		},
+		connectionsAcquired: 4,
+		queriesExecuted: 120,
+		queryFailures: 2,
+		openTransactions: 1,
+		transactionsCommitted: 10,
+		transactionsRolledBack: 1,
+		preparedStatementCacheHits: 90,
+		preparedStatementCacheMisses: 30,
+	};
+
+	it("should render gauges, counters and the wait time summary", () => {
+		const text = formatPrometheusStats(stats);
+
+		expect(text).toContain("# TYPE kysely_bun_sql_reserved_connections gauge");
+		expect(text).toContain("kysely_bun_sql_reserved_connections 3\n");
+		expect(text).toContain("# TYPE kysely_bun_sql_queries_total counter");
+		expect(text).toContain("kysely_bun_sql_queries_total 120\n");
+		expect(text).toContain("kysely_bun_sql_query_failures_total 2\n");
+		expect(text).toContain(
+			"kysely_bun_sql_prepared_statement_cache_hits_total 90\n",
+		);
+		expect(text).toContain(
+			'kysely_bun_sql_connection_wait_seconds{quantile="0.99"} 0.04\n',
+		);
+		expect(text).toContain("kysely_bun_sql_connection_wait_seconds_sum 0.06\n");
+		expect(text).toContain("kysely_bun_sql_connection_wait_seconds_count 4\n");
+		expect(text.endsWith("\n")).toBe(true);
+	});
+
+	it("should use a custom metric prefix", () => {
+		const text = formatPrometheusStats(stats, "app_db");
+
+		expect(text).toContain("app_db_open_transactions 1\n");
+		expect(text).not.toContain("kysely_bun_sql");
+	});
+});
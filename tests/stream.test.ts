@@ -0,0 +1,280 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { Kysely, sql } from "kysely";
+import { BunSQLDialect } from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+interface Database {
+	stream_items: {
+		id: number;
+		label: string;
+	};
+	stream_logged_items: {
+		id: number;
+	};
+}
+
+const ROW_COUNT = 250;
+
+function createDatabase(adapter: TestAdapter): Kysely<Database> {
+	return new Kysely<Database>({
+		dialect: new BunSQLDialect({ database: createSQL(adapter) }),
+	});
+}
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} streaming`, () => {
+		let db: Kysely<Database>;
+
+		beforeAll(async () => {
+			db = createDatabase(adapter);
+
+			await db.schema.dropTable("stream_items").ifExists().execute();
+			await db.schema
+				.createTable("stream_items")
+				.addColumn("id", "integer", (col) => col.primaryKey())
+				.addColumn("label", "varchar(255)", (col) => col.notNull())
+				.execute();
+
+			await db
+				.insertInto("stream_items")
+				.values(
+					Array.from({ length: ROW_COUNT }, (_, i) => ({
+						id: i + 1,
+						label: `item ${i + 1}`,
+					})),
+				)
+				.execute();
+		});
+
+		afterAll(async () => {
+			await db.destroy();
+		});
+
+		it("should yield rows in chunks of chunkSize", async () => {
+			const chunks: number[] = [];
+			const query = db
+				.selectFrom("stream_items")
+				.select(["id", "label"])
+				.orderBy("id")
+				.compile();
+
+			await db.getExecutor().provideConnection(async (conn) => {
+				for await (const result of conn.streamQuery(query, 100)) {
+					chunks.push(result.rows.length);
+				}
+			});
+
+			expect(chunks).toEqual([100, 100, 50]);
+		});
+
+		it("should stream every row in order", async () => {
+			const ids: number[] = [];
+
+			for await (const row of db
+				.selectFrom("stream_items")
+				.select("id")
+				.where("id", ">", 10)
+				.orderBy("id")
+				.stream(40)) {
+				ids.push(Number(row.id));
+			}
+
+			expect(ids).toHaveLength(ROW_COUNT - 10);
+			expect(ids[0]).toBe(11);
+			expect(ids.at(-1)).toBe(ROW_COUNT);
+		});
+
+		it("should release the connection when breaking out early", async () => {
+			let seen = 0;
+
+			for await (const _row of db
+				.selectFrom("stream_items")
+				.selectAll()
+				.orderBy("id")
+				.stream(10)) {
+				if (++seen === 15) {
+					break;
+				}
+			}
+
+			expect(seen).toBe(15);
+
+			// The connection went back to the pool outside of any transaction
+			const result = await db.transaction().execute((trx) =>
+				trx
+					.selectFrom("stream_items")
+					.select((eb) => eb.fn.countAll<number>().as("count"))
+					.executeTakeFirstOrThrow(),
+			);
+
+			expect(Number(result.count)).toBe(ROW_COUNT);
+		});
+
+		it("should stream inside a transaction", async () => {
+			await db.transaction().execute(async (trx) => {
+				await trx
+					.updateTable("stream_items")
+					.set({ label: "changed" })
+					.where("id", "=", 1)
+					.execute();
+
+				const labels: string[] = [];
+
+				for await (const row of trx
+					.selectFrom("stream_items")
+					.select("label")
+					.where("id", "<=", 3)
+					.orderBy("id")
+					.stream(2)) {
+					labels.push(row.label);
+				}
+
+				expect(labels).toEqual(["changed", "item 2", "item 3"]);
+
+				await trx
+					.updateTable("stream_items")
+					.set({ label: "item 1" })
+					.where("id", "=", 1)
+					.execute();
+			});
+		});
+
+		it("should stream a query with its own limit", async () => {
+			const ids: number[] = [];
+
+			for await (const row of db
+				.selectFrom("stream_items")
+				.select("id")
+				.orderBy("id", "desc")
+				.limit(5)
+				.stream(2)) {
+				ids.push(Number(row.id));
+			}
+
+			expect(ids).toEqual([250, 249, 248, 247, 246]);
+		});
+
+		// MySQL has no RETURNING
+		it.skipIf(adapter === "mysql")(
+			"should stream the rows returned by a write",
+			async () => {
+				const ids: number[] = [];
+
+				for await (const row of db
+					.updateTable("stream_items")
+					.set((eb) => ({ label: eb.ref("label") }))
+					.where("id", "<=", 5)
+					.returning("id")
+					.stream(2)) {
+					ids.push(Number(row.id));
+				}
+
+				expect(ids.sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5]);
+			},
+		);
+
+		it.skipIf(adapter !== "postgres")(
+			"should report the error of a failing fetch",
+			async () => {
+				const error = await db
+					.transaction()
+					.execute(async (trx) => {
+						for await (const _row of trx
+							.selectFrom("stream_items")
+							.select(sql<number>`1 / (id - 5)`.as("ratio"))
+							.orderBy("id")
+							.stream(2)) {
+							// Row 5 divides by zero in the third fetch
+						}
+					})
+					.catch((e) => e);
+
+				expect(error).toBeInstanceOf(Error);
+				expect(error.message).toContain("division by zero");
+			},
+		);
+
+		it.skipIf(adapter === "postgres")(
+			"should fetch every window in one transaction",
+			async () => {
+				const statements: string[] = [];
+				const logged = new Kysely<Database>({
+					dialect: new BunSQLDialect({
+						database: createSQL(adapter),
+						ownsDatabase: true,
+						onQuery: (event) => statements.push(event.sql),
+					}),
+				});
+
+				await logged.schema
+					.createTable("stream_logged_items")
+					.addColumn("id", "integer", (col) => col.primaryKey())
+					.execute();
+				await logged
+					.insertInto("stream_logged_items")
+					.values([1, 2, 3, 4, 5].map((id) => ({ id })))
+					.execute();
+				statements.length = 0;
+
+				const ids: number[] = [];
+
+				for await (const row of logged
+					.selectFrom("stream_logged_items")
+					.select("id")
+					.orderBy("id")
+					.stream(2)) {
+					ids.push(Number(row.id));
+				}
+
+				await logged.schema.dropTable("stream_logged_items").execute();
+				await logged.destroy();
+
+				expect(ids).toEqual([1, 2, 3, 4, 5]);
+				expect(statements.slice(0, 5)).toEqual([
+					adapter === "sqlite"
+						? "begin"
+						: "start transaction with consistent snapshot",
+					...Array.from({ length: 3 }, () =>
+						expect.stringMatching(/limit \? offset \?$/),
+					),
+					"commit",
+				]);
+			},
+		);
+
+		// SQLite's single connection keeps other writers out while streaming
+		it.if(adapter === "mysql")(
+			"should not see rows written between windows",
+			async () => {
+				const ids: number[] = [];
+
+				for await (const row of db
+					.selectFrom("stream_items")
+					.select("id")
+					.orderBy("id")
+					.stream(100)) {
+					if (ids.push(Number(row.id)) === 1) {
+						// Would shift every later window by one row
+						await db
+							.insertInto("stream_items")
+							.values({ id: 0, label: "item 0" })
+							.execute();
+					}
+				}
+
+				await db.deleteFrom("stream_items").where("id", "=", 0).execute();
+
+				expect(ids).toHaveLength(ROW_COUNT);
+				expect(new Set(ids).size).toBe(ROW_COUNT);
+			},
+		);
+
+		it("should reject an invalid chunkSize", async () => {
+			const iterator = db.selectFrom("stream_items").selectAll().stream(0);
+
+			await expect(iterator.next()).rejects.toThrow(
+				"chunkSize must be a positive integer",
+			);
+		});
+	});
+}
@@ -0,0 +1,191 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { SQL } from "bun";
+import { Kysely, sql } from "kysely";
+import {
+	BunSQLDialect,
+	QueryCancelledError,
+	QueryTimeoutError,
+	withQueryOptions,
+} from "../src";
+import {
+	ADAPTER_NAMES,
+	ADAPTERS,
+	createSQL,
+	DATABASE_URLS,
+	type TestAdapter,
+} from "./utils";
+
+// A query that keeps the server busy for five seconds
+const SLOW_QUERY: Partial<Record<TestAdapter, string>> = {
+	postgres: "select pg_sleep(5)",
+	mysql: "select sleep(5)",
+};
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} query timeouts`, () => {
+		let db: Kysely<unknown>;
+
+		async function selectOne(kysely: Kysely<unknown> = db) {
+			const result = await sql<{ one: number }>`select 1 as one`.execute(
+				kysely,
+			);
+			return Number(result.rows[0]?.one);
+		}
+
+		beforeAll(() => {
+			db = new Kysely<unknown>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+				}),
+			});
+		});
+
+		afterAll(async () => {
+			await db.destroy();
+		});
+
+		it("should run queries that finish within the timeout", async () => {
+			expect(
+				await withQueryOptions({ timeout: 5_000 }, () => selectOne()),
+			).toBe(1);
+		});
+
+		it("should not run queries whose signal is already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort(new Error("request closed"));
+
+			const error = await withQueryOptions({ signal: controller.signal }, () =>
+				selectOne(),
+			).catch((e) => e);
+
+			expect(error).toBeInstanceOf(QueryCancelledError);
+			expect(error.cause).toEqual(new Error("request closed"));
+			expect(await selectOne()).toBe(1);
+		});
+
+		it("should let nested options override outer ones", async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			const result = await withQueryOptions({ signal: controller.signal }, () =>
+				withQueryOptions({ signal: new AbortController().signal }, () =>
+					selectOne(),
+				),
+			);
+
+			expect(result).toBe(1);
+		});
+
+		const slowQuery = SLOW_QUERY[adapter];
+
+		// SQLite runs statements synchronously, so they cannot be interrupted
+		it.skipIf(!slowQuery)("should time out slow queries", async () => {
+			const started = Date.now();
+			const error = await withQueryOptions({ timeout: 200 }, () =>
+				sql.raw(slowQuery ?? "").execute(db),
+			).catch((e) => e);
+
+			expect(error).toBeInstanceOf(QueryTimeoutError);
+			expect(error.message).toBe("Bun SQL query timed out after 200ms");
+			expect(Date.now() - started).toBeLessThan(4_000);
+			expect(await selectOne()).toBe(1);
+		});
+
+		it.skipIf(!slowQuery)(
+			"should leave the connection usable after a timeout",
+			async () => {
+				await db.connection().execute(async (conn) => {
+					const error = await withQueryOptions({ timeout: 200 }, () =>
+						sql.raw(slowQuery ?? "").execute(conn),
+					).catch((e) => e);
+
+					expect(error).toBeInstanceOf(QueryTimeoutError);
+
+					// A late cancel would hit this query instead
+					const { rows } = await sql<{ one: number }>`select ${sql.raw(
+						adapter === "postgres" ? "pg_sleep(0.5)" : "sleep(0.5)",
+					)}, 1 as one`.execute(conn);
+
+					expect(Number(rows[0]?.one)).toBe(1);
+				});
+			},
+		);
+
+		it.skipIf(!slowQuery)(
+			"should time out even when the pool has no connection left",
+			async () => {
+				// The only connection runs the query, so the cancel cannot get one
+				const starvedDb = new Kysely<unknown>({
+					dialect: new BunSQLDialect({
+						database: new SQL({ url: DATABASE_URLS[adapter], max: 1 }),
+						ownsDatabase: true,
+						queryTimeout: 200,
+					}),
+				});
+				const started = Date.now();
+
+				await expect(
+					sql.raw(slowQuery ?? "").execute(starvedDb),
+				).rejects.toBeInstanceOf(QueryTimeoutError);
+				expect(Date.now() - started).toBeLessThan(4_000);
+
+				await starvedDb.destroy();
+			},
+		);
+
+		it.skipIf(!slowQuery)("should time out slow replica reads", async () => {
+			const replicaDb = new Kysely<unknown>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					replicas: [createSQL(adapter)],
+					ownsDatabase: true,
+					queryTimeout: 200,
+				}),
+			});
+			const started = Date.now();
+
+			await expect(
+				withQueryOptions({ replica: true }, () =>
+					sql.raw(slowQuery ?? "").execute(replicaDb),
+				),
+			).rejects.toBeInstanceOf(QueryTimeoutError);
+			expect(Date.now() - started).toBeLessThan(4_000);
+
+			await replicaDb.destroy();
+		});
+
+		it.skipIf(!slowQuery)("should cancel slow queries on abort", async () => {
+			const controller = new AbortController();
+			setTimeout(() => controller.abort(), 200);
+
+			const error = await withQueryOptions({ signal: controller.signal }, () =>
+				sql.raw(slowQuery ?? "").execute(db),
+			).catch((e) => e);
+
+			expect(error).toBeInstanceOf(QueryCancelledError);
+			expect(await selectOne()).toBe(1);
+		});
+
+		it.skipIf(!slowQuery)("should apply the dialect-wide timeout", async () => {
+			const timeoutDb = new Kysely<unknown>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+					queryTimeout: 200,
+				}),
+			});
+
+			await expect(
+				sql.raw(slowQuery ?? "").execute(timeoutDb),
+			).rejects.toBeInstanceOf(QueryTimeoutError);
+
+			// A per-query timeout of 0 disables the default
+			expect(
+				await withQueryOptions({ timeout: 0 }, () => selectOne(timeoutDb)),
+			).toBe(1);
+
+			await timeoutDb.destroy();
+		});
+	});
+}
@@ -0,0 +1,178 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { Kysely, sql } from "kysely";
+import {
+	BunSQLDialect,
+	type BunSQLSpan,
+	type BunSQLSpanAttributes,
+	type BunSQLSpanAttributeValue,
+	type BunSQLSpanOptions,
+	type BunSQLTracer,
+	SQLSyntaxError,
+} from "../src";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+interface RecordedSpan {
+	name: string;
+	kind?: number;
+	attributes: BunSQLSpanAttributes;
+	exceptions: Error[];
+	status?: { code: number; message?: string };
+	ended: boolean;
+}
+
+// Records spans the way an OpenTelemetry exporter would receive them
+class RecordingTracer implements BunSQLTracer {
+	readonly spans: RecordedSpan[] = [];
+
+	startSpan(name: string, options: BunSQLSpanOptions = {}): BunSQLSpan {
+		const recorded: RecordedSpan = {
+			name,
+			kind: options.kind,
+			attributes: { ...options.attributes },
+			exceptions: [],
+			ended: false,
+		};
+		this.spans.push(recorded);
+
+		return {
+			setAttribute(key: string, value: BunSQLSpanAttributeValue) {
+				recorded.attributes[key] = value;
+			},
+			setAttributes(attributes: BunSQLSpanAttributes) {
+				Object.assign(recorded.attributes, attributes);
+			},
+			recordException(exception: Error) {
+				recorded.exceptions.push(exception);
+			},
+			setStatus(status: { code: number; message?: string }) {
+				recorded.status = status;
+			},
+			end() {
+				recorded.ended = true;
+			},
+		};
+	}
+
+	named(name: string): RecordedSpan[] {
+		return this.spans.filter((span) => span.name === name);
+	}
+}
+
+const DB_SYSTEM: Record<TestAdapter, string> = {
+	postgres: "postgresql",
+	mysql: "mysql",
+	sqlite: "sqlite",
+};
+
+// Server address of the docker-compose services in tests/utils.ts
+const SERVER: Partial<Record<TestAdapter, [string, number]>> = {
+	postgres: ["localhost", 5432],
+	mysql: ["localhost", 3306],
+};
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} tracing`, () => {
+		let db: Kysely<unknown> | undefined;
+		let tracer: RecordingTracer;
+
+		function createDatabase(): Kysely<unknown> {
+			tracer = new RecordingTracer();
+			db = new Kysely<unknown>({
+				dialect: new BunSQLDialect({
+					database: createSQL(adapter),
+					ownsDatabase: true,
+					tracer,
+				}),
+			});
+			return db;
+		}
+
+		afterEach(async () => {
+			await db?.destroy();
+			db = undefined;
+		});
+
+		it("should trace queries with database attributes", async () => {
+			const kysely = createDatabase();
+
+			await sql`select 1 as one`.execute(kysely);
+
+			const [span] = tracer.named("SELECT");
+
+			expect(span?.ended).toBe(true);
+			expect(span?.kind).toBe(2);
+			expect(span?.attributes["db.system"]).toBe(DB_SYSTEM[adapter]);
+			expect(span?.attributes["db.statement"]).toBe("select 1 as one");
+			expect(span?.attributes["db.operation"]).toBe("SELECT");
+			expect(span?.status).toBeUndefined();
+
+			const server = SERVER[adapter];
+			if (server) {
+				expect(span?.attributes["server.address"]).toBe(server[0]);
+				expect(span?.attributes["server.port"]).toBe(server[1]);
+			}
+		});
+
+		it("should trace connection acquisition", async () => {
+			const kysely = createDatabase();
+
+			await sql`select 1`.execute(kysely);
+			await sql`select 1`.execute(kysely);
+
+			const spans = tracer.named("db.connection.acquire");
+
+			expect(spans).toHaveLength(2);
+			expect(spans.every((span) => span.ended)).toBe(true);
+			expect(spans[0]?.attributes["db.system"]).toBe(DB_SYSTEM[adapter]);
+		});
+
+		it("should trace the transaction lifecycle", async () => {
+			const kysely = createDatabase();
+
+			await kysely.transaction().execute((trx) => sql`select 1`.execute(trx));
+			await kysely
+				.transaction()
+				.execute(async () => {
+					throw new Error("abort");
+				})
+				.catch(() => {});
+
+			const [committed, rolledBack] = tracer.named("db.transaction");
+
+			expect(committed?.ended).toBe(true);
+			expect(committed?.attributes["db.transaction.outcome"]).toBe("commit");
+			expect(rolledBack?.ended).toBe(true);
+			expect(rolledBack?.attributes["db.transaction.outcome"]).toBe("rollback");
+			expect(tracer.named("COMMIT")).toHaveLength(1);
+			expect(tracer.named("ROLLBACK")).toHaveLength(1);
+		});
+
+		it("should record errors on the query span", async () => {
+			const kysely = createDatabase();
+
+			const error = await sql`selec 1`.execute(kysely).catch((e) => e);
+			const [span] = tracer.named("SELEC");
+
+			expect(error).toBeInstanceOf(SQLSyntaxError);
+			expect(span?.ended).toBe(true);
+			expect(span?.exceptions).toEqual([error]);
+			expect(span?.status).toEqual({ code: 2, message: error.message });
+		});
+
+		it("should record errors on the transaction span", async () => {
+			const kysely = createDatabase();
+
+			await kysely
+				.transaction()
+				.setIsolationLevel("snapshot")
+				.execute(() => sql`select 1`.execute(kysely))
+				.catch(() => {});
+
+			const [span] = tracer.named("db.transaction");
+
+			expect(span?.ended).toBe(true);
+			expect(span?.exceptions).toHaveLength(1);
+			expect(span?.status?.code).toBe(2);
+		});
+	});
+}
@@ -0,0 +1,285 @@
+import { Database as SQLiteDatabase } from "bun:sqlite";
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { randomUUID } from "node:crypto";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SQL } from "bun";
+import {
+	type IsolationLevel,
+	Kysely,
+	sql,
+	TRANSACTION_ACCESS_MODES,
+	TRANSACTION_ISOLATION_LEVELS,
+} from "kysely";
+import {
+	BunSQLDialect,
+	type SQLiteTransactionMode,
+	UnsupportedTransactionSettingsError,
+	withQueryOptions,
+} from "../src";
+import { compileBeginTransaction } from "../src/transaction";
+import { ADAPTER_NAMES, ADAPTERS, createSQL, type TestAdapter } from "./utils";
+
+interface Database {
+	transaction_items: {
+		name: string;
+	};
+}
+
+const SUPPORTED_ISOLATION_LEVELS: Record<TestAdapter, IsolationLevel[]> = {
+	postgres: [
+		"read uncommitted",
+		"read committed",
+		"repeatable read",
+		"serializable",
+	],
+	mysql: [
+		"read uncommitted",
+		"read committed",
+		"repeatable read",
+		"serializable",
+	],
+	sqlite: ["serializable"],
+};
+
+function createDatabase(adapter: TestAdapter): Kysely<Database> {
+	return new Kysely<Database>({
+		dialect: new BunSQLDialect({ database: createSQL(adapter) }),
+	});
+}
+
+describe("compileBeginTransaction", () => {
+	it("should use a single start transaction on Postgres", () => {
+		expect(compileBeginTransaction("postgres")).toEqual(["begin"]);
+		expect(
+			compileBeginTransaction("postgres", {
+				isolationLevel: "serializable",
+				accessMode: "read only",
+			}),
+		).toEqual(["start transaction isolation level serializable, read only"]);
+	});
+
+	it("should set the isolation level before starting on MySQL", () => {
+		expect(compileBeginTransaction("mysql")).toEqual(["start transaction"]);
+		expect(
+			compileBeginTransaction("mariadb", {
+				isolationLevel: "read committed",
+				accessMode: "read write",
+			}),
+		).toEqual([
+			"set transaction isolation level read committed",
+			"start transaction read write",
+		]);
+	});
+
+	it("should use begin with a locking mode on SQLite", () => {
+		expect(compileBeginTransaction("sqlite")).toEqual(["begin"]);
+		expect(
+			compileBeginTransaction("sqlite", {
+				isolationLevel: "serializable",
+				sqliteTransactionMode: "immediate",
+			}),
+		).toEqual(["begin immediate"]);
+	});
+
+	it("should reject unsupported combinations", () => {
+		expect(() =>
+			compileBeginTransaction("sqlite", { isolationLevel: "read committed" }),
+		).toThrow(UnsupportedTransactionSettingsError);
+		expect(() =>
+			compileBeginTransaction("sqlite", { accessMode: "read only" }),
+		).toThrow('The sqlite adapter does not support accessMode "read only"');
+		expect(() =>
+			compileBeginTransaction("postgres", { isolationLevel: "snapshot" }),
+		).toThrow(UnsupportedTransactionSettingsError);
+		expect(() =>
+			compileBeginTransaction("mysql", { sqliteTransactionMode: "immediate" }),
+		).toThrow(UnsupportedTransactionSettingsError);
+	});
+});
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} transaction settings`, () => {
+		let db: Kysely<Database>;
+
+		beforeAll(async () => {
+			db = createDatabase(adapter);
+
+			await db.schema.dropTable("transaction_items").ifExists().execute();
+			await db.schema
+				.createTable("transaction_items")
+				.addColumn("name", "varchar(255)", (col) => col.notNull())
+				.execute();
+		});
+
+		afterAll(async () => {
+			await db.destroy();
+		});
+
+		for (const isolationLevel of TRANSACTION_ISOLATION_LEVELS) {
+			const supported =
+				SUPPORTED_ISOLATION_LEVELS[adapter].includes(isolationLevel);
+
+			it(`should ${supported ? "accept" : "reject"} isolation level ${isolationLevel}`, async () => {
+				const run = db
+					.transaction()
+					.setIsolationLevel(isolationLevel)
+					.execute((trx) =>
+						trx
+							.insertInto("transaction_items")
+							.values({ name: isolationLevel })
+							.execute(),
+					);
+
+				if (supported) {
+					await run;
+				} else {
+					await expect(run).rejects.toThrow(
+						UnsupportedTransactionSettingsError,
+					);
+				}
+			});
+		}
+
+		for (const accessMode of TRANSACTION_ACCESS_MODES) {
+			const supported = adapter !== "sqlite" || accessMode === "read write";
+
+			it(`should ${supported ? "accept" : "reject"} access mode ${accessMode}`, async () => {
+				const run = db
+					.transaction()
+					.setAccessMode(accessMode)
+					.execute((trx) =>
+						trx.selectFrom("transaction_items").selectAll().execute(),
+					);
+
+				if (supported) {
+					await run;
+				} else {
+					await expect(run).rejects.toThrow(
+						UnsupportedTransactionSettingsError,
+					);
+				}
+			});
+		}
+
+		it.skipIf(adapter === "sqlite")(
+			"should refuse writes in a read only transaction",
+			async () => {
+				const run = db
+					.transaction()
+					.setAccessMode("read only")
+					.execute((trx) =>
+						trx
+							.insertInto("transaction_items")
+							.values({ name: "read only" })
+							.execute(),
+					);
+
+				await expect(run).rejects.toThrow();
+			},
+		);
+
+		it.if(adapter === "postgres")(
+			"should apply the isolation level on Postgres",
+			async () => {
+				const level = await db
+					.transaction()
+					.setIsolationLevel("repeatable read")
+					.execute(async (trx) => {
+						const result = await sql<{
+							transaction_isolation: string;
+						}>`show transaction_isolation`.execute(trx);
+						return result.rows[0]?.transaction_isolation;
+					});
+
+				expect(level).toBe("repeatable read");
+			},
+		);
+
+		it.if(adapter === "sqlite")(
+			"should take the locks of the SQLite transaction mode",
+			async () => {
+				const file = join(tmpdir(), `kysely-bun-sql-${randomUUID()}.sqlite`);
+				// A second connection to the same file, failing instead of waiting
+				const other = new SQLiteDatabase(file);
+				other.run("create table transaction_items (name text)");
+
+				const succeeds = (statement: string) => {
+					try {
+						other.run(statement);
+						return true;
+					} catch {
+						return false;
+					}
+				};
+
+				// What the other connection can do right after `begin`
+				const expected: Record<
+					SQLiteTransactionMode,
+					{ read: boolean; write: boolean }
+				> = {
+					deferred: { read: true, write: true },
+					immediate: { read: true, write: false },
+					exclusive: { read: false, write: false },
+				};
+
+				try {
+					for (const [mode, allowed] of Object.entries(expected)) {
+						const modeDb = new Kysely<Database>({
+							dialect: new BunSQLDialect({
+								database: new SQL({ adapter: "sqlite", filename: file }),
+								ownsDatabase: true,
+								sqliteTransactionMode: mode as SQLiteTransactionMode,
+							}),
+						});
+
+						await modeDb.transaction().execute(async () => {
+							expect(succeeds("select * from transaction_items")).toBe(
+								allowed.read,
+							);
+							expect(
+								succeeds("insert into transaction_items values ('other')"),
+							).toBe(allowed.write);
+						});
+
+						await modeDb.destroy();
+					}
+
+					// Per transaction, overriding the dialect's mode
+					const modeDb = new Kysely<Database>({
+						dialect: new BunSQLDialect({
+							database: new SQL({ adapter: "sqlite", filename: file }),
+							ownsDatabase: true,
+						}),
+					});
+
+					await withQueryOptions({ sqliteTransactionMode: "immediate" }, () =>
+						modeDb.transaction().execute(async () => {
+							expect(
+								succeeds("insert into transaction_items values ('other')"),
+							).toBe(false);
+						}),
+					);
+
+					await modeDb.destroy();
+				} finally {
+					other.close();
+					await rm(file, { force: true });
+				}
+			},
+		);
+
+		it.skipIf(adapter === "sqlite")(
+			"should reject the SQLite transaction mode option",
+			() => {
+				expect(() =>
+					new BunSQLDialect({
+						database: createSQL(adapter),
+						sqliteTransactionMode: "immediate",
+					}).createDriver(),
+				).toThrow(UnsupportedTransactionSettingsError);
+			},
+		);
+	});
+}
@@ -0,0 +1,238 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { Kysely } from "kysely";
+import { BunSQLDialect, type BunSQLTypeMapping } from "../src";
+import { createValueMapper } from "../src/types";
+import { ADAPTER_NAMES, ADAPTERS, DATABASE_URLS } from "./utils";
+
+interface Database {
+	type_items: {
+		id: number;
+		big: unknown;
+		amount: unknown;
+		created_at: unknown;
+		payload: unknown;
+	};
+}
+
+const PAYLOAD = { tags: ["a", "b"], nested: { ok: true } };
+
+const COLUMNS: BunSQLTypeMapping["columns"] = {
+	big: "bigint",
+	amount: "decimal",
+	created_at: "timestamp",
+	payload: "json",
+};
+
+for (const adapter of ADAPTERS) {
+	describe(`${ADAPTER_NAMES[adapter]} type mapping`, () => {
+		let db: Kysely<Database> | undefined;
+
+		async function selectRow(types: BunSQLTypeMapping, big = 3_000_000_000) {
+			db = new Kysely<Database>({
+				dialect: new BunSQLDialect({ database: DATABASE_URLS[adapter], types }),
+			});
+
+			await db.schema.dropTable("type_items").ifExists().execute();
+			await db.schema
+				.createTable("type_items")
+				.addColumn("id", "integer", (col) => col.primaryKey())
+				.addColumn("big", "bigint")
+				.addColumn("amount", "decimal(10, 2)")
+				.addColumn("created_at", "timestamp")
+				.addColumn("payload", "json")
+				.execute();
+			await db
+				.insertInto("type_items")
+				.values({
+					id: 1,
+					big,
+					amount: "12.50",
+					created_at: "2024-01-02 03:04:05",
+					payload: JSON.stringify(PAYLOAD),
+				})
+				.execute();
+
+			return db.selectFrom("type_items").selectAll().executeTakeFirstOrThrow();
+		}
+
+		afterEach(async () => {
+			await db?.schema.dropTable("type_items").ifExists().execute();
+			await db?.destroy();
+			db = undefined;
+		});
+
+		it("should return native JS types", async () => {
+			const row = await selectRow({
+				bigint: "bigint",
+				decimal: "number",
+				timestamp: "date",
+				json: "parsed",
+				columns: COLUMNS,
+			});
+
+			expect(row.big).toBe(3_000_000_000n);
+			expect(row.amount).toBe(12.5);
+			expect(row.created_at).toBeInstanceOf(Date);
+			expect(row.payload).toEqual(PAYLOAD);
+		});
+
+		it("should return strings", async () => {
+			const row = await selectRow({
+				bigint: "string",
+				decimal: "string",
+				timestamp: "string",
+				json: "raw",
+				columns: COLUMNS,
+			});
+
+			expect(row.big).toBe("3000000000");
+			// SQLite stores decimals as floating point numbers
+			expect(row.amount).toBe(adapter === "sqlite" ? "12.5" : "12.50");
+			expect(row.created_at).toBeString();
+			expect(Number.isNaN(Date.parse(row.created_at as string))).toBe(false);
+			expect(row.payload).toBeString();
+			expect(JSON.parse(row.payload as string)).toEqual(PAYLOAD);
+		});
+
+		it("should convert bigints to numbers", async () => {
+			const row = await selectRow({ bigint: "number", columns: COLUMNS });
+
+			expect(row.big).toBe(3_000_000_000);
+		});
+
+		it("should convert small integers of bigint columns", async () => {
+			// Bun returns integers within 32 bits as numbers, even for int8
+			const row = await selectRow({ bigint: "bigint", columns: COLUMNS }, 5);
+
+			expect(row.big).toBe(5n);
+			expect(row.id).toBe(1);
+		});
+
+		it("should return the same integers in bigint and string mode", async () => {
+			const asBigint = await selectRow({ bigint: "bigint", columns: COLUMNS });
+			await db?.destroy();
+			const asString = await selectRow({ bigint: "string", columns: COLUMNS });
+
+			expect(asBigint.big).toBeTypeOf("bigint");
+			expect(asString.big).toBe(String(asBigint.big));
+		});
+
+		it("should leave the text of unlisted columns alone", async () => {
+			const row = await selectRow({
+				decimal: "number",
+				timestamp: "date",
+				json: "parsed",
+			});
+
+			expect(row.amount).toBe(adapter === "sqlite" ? 12.5 : "12.50");
+
+			if (adapter === "sqlite") {
+				expect(row.created_at).toBe("2024-01-02 03:04:05");
+				expect(row.payload).toBe(JSON.stringify(PAYLOAD));
+			}
+		});
+	});
+}
+
+describe("createValueMapper", () => {
+	it("should leave values alone without a mapping", () => {
+		expect(createValueMapper("postgres", undefined)).toBeUndefined();
+		expect(createValueMapper("postgres", {})).toBeUndefined();
+		expect(
+			createValueMapper("postgres", { columns: { id: "bigint" } }),
+		).toBeUndefined();
+	});
+
+	it("should pass null through", () => {
+		const mapValue = createValueMapper("sqlite", {
+			timestamp: "date",
+			json: "parsed",
+			columns: { value: "json" },
+		});
+
+		expect(mapValue?.(null, "value")).toBeNull();
+	});
+
+	it("should convert every integer of a bigint column", () => {
+		const mapValue = createValueMapper("postgres", {
+			bigint: "bigint",
+			columns: { id: "bigint" },
+		});
+
+		expect(mapValue?.(5, "id")).toBe(5n);
+		expect(mapValue?.("3000000000", "id")).toBe(3_000_000_000n);
+		expect(mapValue?.(3_000_000_000n, "other")).toBe(3_000_000_000n);
+		expect(mapValue?.(5, "other")).toBe(5);
+		expect(mapValue?.("5", "other")).toBe("5");
+	});
+
+	it("should read SQLite timestamps of listed columns as UTC", () => {
+		const mapValue = createValueMapper("sqlite", {
+			timestamp: "date",
+			columns: { at: "timestamp" },
+		});
+
+		expect(mapValue?.("2024-01-02 03:04:05", "at")).toEqual(
+			new Date("2024-01-02T03:04:05Z"),
+		);
+		expect(mapValue?.("2024-01-02T03:04:05+02:00", "at")).toEqual(
+			new Date("2024-01-02T01:04:05Z"),
+		);
+		expect(mapValue?.("not a date", "at")).toBe("not a date");
+		expect(mapValue?.("2024-01-02 03:04:05", "name")).toBe(
+			"2024-01-02 03:04:05",
+		);
+	});
+
+	it("should only parse the text of listed JSON columns", () => {
+		const mapValue = createValueMapper("mysql", {
+			json: "parsed",
+			columns: { payload: "json" },
+		});
+
+		expect(mapValue?.('{"a":1}', "payload")).toEqual({ a: 1 });
+		expect(mapValue?.("[1, 2]", "payload")).toEqual([1, 2]);
+		expect(mapValue?.('{"a":1}', "name")).toBe('{"a":1}');
+	});
+
+	it("should leave listed text that is not JSON as is", () => {
+		const mapValue = createValueMapper("sqlite", {
+			json: "parsed",
+			columns: { data: "json" },
+		});
+
+		expect(mapValue?.("plain text", "data")).toBe("plain text");
+		expect(mapValue?.('{"a":', "data")).toBe('{"a":');
+	});
+
+	it("should keep PostgreSQL arrays as arrays in raw JSON mode", () => {
+		const postgres = createValueMapper("postgres", {
+			json: "raw",
+			columns: { payload: "json" },
+		});
+		const mysql = createValueMapper("mysql", { json: "raw" });
+
+		expect(postgres?.([1, 2], "tags")).toEqual([1, 2]);
+		expect(postgres?.([1, 2], "payload")).toBe("[1,2]");
+		expect(postgres?.({ a: 1 }, "tags")).toBe('{"a":1}');
+		expect(mysql?.([1, 2], "payload")).toBe("[1,2]");
+	});
+
+	it("should only convert decimals of listed columns", () => {
+		const postgres = createValueMapper("postgres", {
+			decimal: "number",
+			columns: { price: "decimal" },
+		});
+
+		expect(postgres?.("12.50", "price")).toBe(12.5);
+		expect(postgres?.("-0.5", "price")).toBe(-0.5);
+		expect(postgres?.("12.50", "code")).toBe("12.50");
+	});
+
+	it("should not touch binary values", () => {
+		const mapValue = createValueMapper("postgres", { json: "raw" });
+		const bytes = new Uint8Array([1, 2]);
+
+		expect(mapValue?.(bytes, "data")).toBe(bytes);
+	});
+});